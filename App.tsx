@@ -1,10 +1,45 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import EconomicChart from './components/EconomicChart';
 import SourceList from './components/SourceList';
 import IndicatorPanel from './components/IndicatorPanel';
+import DataWarnings from './components/DataWarnings';
+import VintagePicker from './components/VintagePicker';
+import RevisionView from './components/RevisionView';
+import DateRangeControl from './components/DateRangeControl';
+import SmallMultiplesChart from './components/SmallMultiplesChart';
+import ChartModeToggle, { ChartMode } from './components/ChartModeToggle';
+import TransformPanel from './components/TransformPanel';
+import ImportPanel from './components/ImportPanel';
+import AlertsPanel from './components/AlertsPanel';
+import FailedIndicators from './components/FailedIndicators';
+import AnomalyWarnings from './components/AnomalyWarnings';
+import AnalysisView from './components/AnalysisView';
+import ScenarioPanel from './components/ScenarioPanel';
+import PolicyCorridorChart from './components/PolicyCorridorChart';
+import AnnotationPanel from './components/AnnotationPanel';
 import { fetchEconomicData } from './services/geminiService';
-import { EconomicIndicator, INDICATORS_MAP, IndicatorKey, Source } from './types';
+import { fetchVintage, fetchVintages } from './services/vintageService';
+import { loadIndicatorSelection, saveIndicatorSelection } from './services/indicatorSelection';
+import { ExportFormat, exportData } from './services/exportService';
+import { loadUserSeries, saveUserSeries } from './services/userSeriesStore';
+import { loadCustomAlertRules, saveCustomAlertRules } from './services/alertRuleStore';
+import { loadScenarios, saveScenarios } from './services/scenarioStore';
+import { createAnnotation, fetchAnnotations } from './services/annotationService';
+import { MonthRange, addMonths, getDefaultMonthRange, toMonth } from './lib/months';
+import { TransformSettings, applyTransforms, describeTransform, getRebasePeriod } from './lib/transforms';
+import { interpolateQuarterly } from './lib/frequency';
+import { mergeByMonth } from './lib/merge';
+import { MAX_ENSEMBLE_RUNS, stripEnsemble } from './lib/ensemble';
+import { checkPlausibility } from './lib/plausibility';
+import { PROJECTION_EXTENSION_MONTHS, PROJECTION_METHOD_OPTIONS, projectIndicators } from './lib/projections';
+import { applyScenario, summarizeScenario } from './lib/scenarios';
+import { mergeSources, rankSources } from './lib/sources';
+import { buildExportTable } from './lib/export/table';
+import { transformUserSeries } from './lib/userData';
+import { evaluateAlertRules, getRegistryAlertRules } from './lib/alerts';
+import { ANNOTATION_CATEGORIES, AlertRule, Annotation, AnnotationCategory, EconomicDataResponse, EconomicDataStreamEvent, EconomicIndicator, IndicatorFetchStatus, IndicatorKey, IndicatorMetadata, ProjectionMethod, Scenario, Source, UserSeries, ValidationWarning, VintageSummary } from './types';
+import { getIndicator, getIndicatorKeys, getPolicyCorridor, isIndicatorKey } from './lib/indicators';
 
 // Define primary, trusted sources to show by default.
 const PRIMARY_SOURCES: Source[] = [
@@ -13,9 +48,6 @@ const PRIMARY_SOURCES: Source[] = [
   { title: 'Asian Development Bank (ADB)', uri: 'https://www.adb.org/countries/philippines/main' },
 ];
 
-// All indicators to fetch from the API and display on the chart.
-const ALL_INDICATORS = Object.keys(INDICATORS_MAP) as IndicatorKey[];
-
 // Helper to parse and format error messages for better UX
 const getFriendlyErrorMessage = (error: string | null): { title: string; message: string; isHtml: boolean } => {
   if (!error) {
@@ -53,82 +85,297 @@ const getFriendlyErrorMessage = (error: string | null): { title: string; message
 const App: React.FC = () => {
   const [data, setData] = useState<EconomicIndicator[] | null>(null);
   const [sources, setSources] = useState<Source[]>(PRIMARY_SOURCES);
+  const [warnings, setWarnings] = useState<ValidationWarning[]>([]);
+  const [indicatorStatus, setIndicatorStatus] = useState<IndicatorFetchStatus[]>([]);
+  const [retryingIndicators, setRetryingIndicators] = useState<IndicatorKey[]>([]);
+  const [fetchedAt, setFetchedAt] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [loadingMessage, setLoadingMessage] = useState<string>('Initializing...');
+  const [vintages, setVintages] = useState<VintageSummary[]>([]);
+  const [selectedVintageId, setSelectedVintageId] = useState<string | null>(null);
+  const [range, setRange] = useState<MonthRange>(() => getDefaultMonthRange());
+  const [selectedIndicators, setSelectedIndicators] = useState<IndicatorKey[]>(loadIndicatorSelection);
+  // The indicators held by the vintage on screen, which may differ from the selection.
+  const [vintageIndicators, setVintageIndicators] = useState<IndicatorKey[] | null>(null);
+  const [chartMode, setChartMode] = useState<ChartMode>('combined');
+  const [transforms, setTransforms] = useState<TransformSettings>({});
+  const [interpolateQuarterlySeries, setInterpolateQuarterlySeries] = useState<boolean>(false);
+  const [ensembleRuns, setEnsembleRuns] = useState<number>(1);
+  const [projectionMethod, setProjectionMethod] = useState<ProjectionMethod | null>(null);
+  const [userSeries, setUserSeries] = useState<UserSeries[]>(loadUserSeries);
+  const [customAlertRules, setCustomAlertRules] = useState<AlertRule[]>(loadCustomAlertRules);
+  const [scenarios, setScenarios] = useState<Scenario[]>(loadScenarios);
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [annotationCategories, setAnnotationCategories] = useState<AnnotationCategory[]>(ANNOTATION_CATEGORIES);
+  const chartContainerRef = useRef<HTMLDivElement>(null);
+  // The in-flight data request, so it can be cancelled or superseded by a newer one.
+  const requestRef = useRef<AbortController | null>(null);
+  // Retries of single indicators, which are cancelled when the data they would complete is replaced.
+  const retriesRef = useRef<Set<AbortController>>(new Set());
+
+  // Keep the URL and localStorage in sync with the selection.
+  useEffect(() => {
+    saveIndicatorSelection(selectedIndicators);
+  }, [selectedIndicators]);
 
-  // Effect for cycling through loading messages
   useEffect(() => {
-    if (!isLoading) return;
+    saveUserSeries(userSeries);
+  }, [userSeries]);
 
-    const messages = [
-      'Fetching latest market data...',
-      'Analyzing recent trends...',
-      'Verifying data sources from the web...',
-      'Compiling indicators...',
-    ];
+  useEffect(() => {
+    saveCustomAlertRules(customAlertRules);
+  }, [customAlertRules]);
 
-    let messageIndex = 0;
-    const intervalId = setInterval(() => {
-      setLoadingMessage(messages[messageIndex]);
-      messageIndex = (messageIndex + 1) % messages.length;
-    }, 2000);
+  useEffect(() => {
+    saveScenarios(scenarios);
+  }, [scenarios]);
 
-    return () => clearInterval(intervalId);
-  }, [isLoading]);
+  const loadVintages = useCallback(async () => {
+    try {
+      setVintages(await fetchVintages());
+    } catch (err) {
+      // The vintage list is optional; the live view keeps working without it.
+      console.error("Failed to load vintages:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAnnotations()
+      .then(setAnnotations)
+      // Annotations are optional; the chart keeps working without them.
+      .catch(err => console.error("Failed to load annotations:", err));
+  }, []);
+
+  const applyResult = useCallback(({ data, sources: fetchedSources, warnings, fetchedAt }: Pick<EconomicDataResponse, 'data' | 'sources' | 'warnings' | 'fetchedAt'>) => {
+    const sortedData = data.sort((a, b) => new Date(a.month).getTime() - new Date(b.month).getTime());
+
+    setData(sortedData);
+    setWarnings(warnings);
+    setFetchedAt(fetchedAt);
+
+    setSources(rankSources(mergeSources(PRIMARY_SOURCES, fetchedSources)));
+  }, []);
+
+  // Streamed events replace the loading screen with real progress: the stage reached, sources as
+  // they are found and rows as soon as they are extracted.
+  const handleStreamEvent = useCallback((event: EconomicDataStreamEvent) => {
+    if (event.type === 'progress') {
+      setLoadingMessage(event.message);
+    } else if (event.type === 'sources') {
+      setSources(current => rankSources(mergeSources(current, event.sources)));
+    } else if (event.type === 'partial') {
+      setData(current => mergeByMonth(current ?? [], event.data));
+    } else if (event.type === 'status') {
+      setIndicatorStatus(current => [...current.filter(entry => !event.status.some(update => update.indicator === entry.indicator)), ...event.status]);
+    }
+  }, []);
+
+  const abortRetries = useCallback(() => {
+    retriesRef.current.forEach(retry => retry.abort());
+    retriesRef.current.clear();
+  }, []);
+
+  const loadData = useCallback(async (refresh: boolean = false) => {
+    requestRef.current?.abort();
+    abortRetries();
+    const request = new AbortController();
+    requestRef.current = request;
 
-  const loadData = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     setData(null);
-    setLoadingMessage('Fetching latest market data...');
+    setSources(PRIMARY_SOURCES);
+    setWarnings([]);
+    setIndicatorStatus([]);
+    setFetchedAt(null);
+    setSelectedVintageId(null);
+    setVintageIndicators(null);
+    setLoadingMessage('Connecting...');
 
-    try {
-      const { data, sources: fetchedSources } = await fetchEconomicData(ALL_INDICATORS);
-      const sortedData = data.sort((a, b) => new Date(a.month).getTime() - new Date(b.month).getTime());
-      
-      setData(sortedData);
-      
-      const combinedSources = [...PRIMARY_SOURCES, ...fetchedSources];
-      const uniqueSources = Array.from(new Map(combinedSources.map(s => [s.uri, s])).values());
-      setSources(uniqueSources);
+    let hasPartialData = false;
+    const onEvent = (event: EconomicDataStreamEvent) => {
+      hasPartialData ||= event.type === 'partial';
+      handleStreamEvent(event);
+    };
 
+    try {
+      const result = await fetchEconomicData(selectedIndicators, { refresh, ...range, ensembleRuns, signal: request.signal, onEvent });
+      applyResult(result);
+      setIndicatorStatus(result.indicatorStatus);
+      // A successful fetch may have produced a new vintage.
+      loadVintages();
     } catch (err) {
+      if (request.signal.aborted) {
+        // A superseded request leaves the state to its replacement; a cancelled one keeps any rows
+        // that already arrived.
+        if (requestRef.current === request && !hasPartialData) {
+          setError('The request was cancelled before any data arrived.');
+        }
+        return;
+      }
       setError(err instanceof Error ? err.message : 'An unknown error occurred.');
     } finally {
-      setIsLoading(false);
+      if (requestRef.current === request) {
+        requestRef.current = null;
+        setIsLoading(false);
+      }
     }
+  }, [abortRetries, applyResult, ensembleRuns, handleStreamEvent, loadVintages, range, selectedIndicators]);
+
+  const handleCancel = useCallback(() => {
+    requestRef.current?.abort();
   }, []);
 
-  // Fetch data on initial component mount.
+  // Fetches a single failed indicator again and merges it into the data on screen. A retry still
+  // running when a newer load or a vintage replaces that data is cancelled and its result dropped.
+  const handleRetryIndicator = useCallback(async (indicator: IndicatorKey) => {
+    const retry = new AbortController();
+    retriesRef.current.add(retry);
+    setRetryingIndicators(current => [...current, indicator]);
+    try {
+      // A retry completes the data on screen rather than making a vintage of its own.
+      const result = await fetchEconomicData([indicator], { refresh: true, ...range, ensembleRuns, archive: false, signal: retry.signal });
+      if (retry.signal.aborted) return;
+      setData(current => (current ? mergeByMonth(current, result.data) : current));
+      setSources(current => rankSources(mergeSources(current, result.sources)));
+      setWarnings(current => [...current, ...result.warnings]);
+      setIndicatorStatus(current => current.map(entry => result.indicatorStatus.find(update => update.indicator === entry.indicator) ?? entry));
+    } catch (err) {
+      if (retry.signal.aborted) return;
+      const message = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setIndicatorStatus(current => current.map(entry => (entry.indicator === indicator ? { ...entry, state: 'failed', error: message } : entry)));
+    } finally {
+      retriesRef.current.delete(retry);
+      setRetryingIndicators(current => current.filter(key => key !== indicator));
+    }
+  }, [ensembleRuns, range]);
+
+  const handleSelectVintage = useCallback(async (vintageId: string | null) => {
+    if (!vintageId) {
+      loadData();
+      return;
+    }
+    requestRef.current?.abort();
+    abortRetries();
+    const request = new AbortController();
+    requestRef.current = request;
+
+    setIsLoading(true);
+    setError(null);
+    setData(null);
+    setWarnings([]);
+    setIndicatorStatus([]);
+    setSelectedVintageId(vintageId);
+    setLoadingMessage('Loading historical vintage...');
+
+    try {
+      const { data, sources, warnings, createdAt, parameters } = await fetchVintage(vintageId, request.signal);
+      if (requestRef.current !== request) return;
+      // A vintage is charted with the indicators it was fetched for, whatever is selected now.
+      setVintageIndicators(parameters.indicators.filter(isIndicatorKey));
+      applyResult({ data, sources, warnings, fetchedAt: createdAt });
+    } catch (err) {
+      // A superseded request leaves the state to its replacement.
+      if (request.signal.aborted) return;
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      if (requestRef.current === request) {
+        requestRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  }, [abortRetries, applyResult, loadData]);
+
+  // The indicators on the chart: the vintage's own when one is open, otherwise the selection.
+  const displayedIndicators = useMemo(() => vintageIndicators ?? selectedIndicators, [selectedIndicators, vintageIndicators]);
+
+  // Fetch data on initial component mount and whenever the date range or selection changes.
   useEffect(() => {
     loadData();
   }, [loadData]);
   
-  const handleExportCSV = useCallback(() => {
-    if (!data || data.length === 0) return;
-
-    // Export all the indicators that are currently displayed on the chart.
-    const headers = ['Month', ...ALL_INDICATORS.map(key => `"${INDICATORS_MAP[key].name}"`)].join(',');
-    const rows = data.map(row => {
-      const values = [`"${row.month}"`, ...ALL_INDICATORS.map(key => row[key] ?? '')];
-      return values.join(',');
+  // The transformed series and their adjusted names/units, as displayed on the chart.
+  // Quarterly series are only interpolated to monthly values when the user asks for it, and are
+  // otherwise transformed quarter by quarter.
+  const toChartData = useCallback((rows: EconomicIndicator[]) => {
+    const resampled = interpolateQuarterlySeries ? interpolateQuarterly(rows, displayedIndicators) : rows;
+    const interpolated = interpolateQuarterlySeries ? displayedIndicators.filter(key => getIndicator(key).frequency === 'quarterly') : [];
+    // Ensemble ranges describe the values as fetched, so they are dropped from reshaped series.
+    const reshaped = displayedIndicators.filter(key => (transforms[key] && transforms[key]!.kind !== 'none') || interpolated.includes(key));
+    return applyTransforms(stripEnsemble(resampled, reshaped), transforms, interpolated);
+  }, [displayedIndicators, interpolateQuarterlySeries, transforms]);
+  const chartData = useMemo(() => (data ? toChartData(data) : null), [data, toChartData]);
+  // The active scenario is applied to the data as fetched, then prepared like the baseline.
+  const activeScenario = scenarios.find(scenario => scenario.id === activeScenarioId) ?? null;
+  const scenarioData = useMemo(() => (data && activeScenario ? applyScenario(data, activeScenario) : null), [activeScenario, data]);
+  const chartScenario = useMemo(
+    () => (activeScenario && scenarioData ? { name: activeScenario.name, data: toChartData(scenarioData) } : undefined),
+    [activeScenario, scenarioData, toChartData],
+  );
+  const scenarioEffects = useMemo(
+    () => (data && scenarioData ? summarizeScenario(data, scenarioData, displayedIndicators) : []),
+    [data, displayedIndicators, scenarioData],
+  );
+  const chartAnnotations = useMemo(
+    () => annotations.filter(annotation => annotationCategories.includes(annotation.category)),
+    [annotationCategories, annotations],
+  );
+  const chartMetadata = useMemo(() => {
+    const metadata: Partial<Record<IndicatorKey, IndicatorMetadata>> = {};
+    // Rebased series are labelled with the period they were actually indexed to.
+    const interpolated = interpolateQuarterlySeries ? displayedIndicators.filter(key => getIndicator(key).frequency === 'quarterly') : [];
+    const resampled = data && interpolateQuarterlySeries ? interpolateQuarterly(data, displayedIndicators) : data;
+    displayedIndicators.forEach(key => {
+      const transform = transforms[key];
+      const rebasePeriod = resampled && transform?.kind === 'rebase' ? getRebasePeriod(resampled, key, transform, interpolated) : undefined;
+      const described = describeTransform(key, transform, { interpolated: interpolateQuarterlySeries, rebasePeriod });
+      metadata[key] = interpolateQuarterlySeries && described.frequency === 'quarterly'
+        ? { ...described, name: `${described.name} (interpolated)`, frequency: 'monthly' }
+        : described;
+    });
+    return metadata;
+  }, [data, displayedIndicators, interpolateQuarterlySeries, transforms]);
+  // Imported series mapped to an indicator follow that indicator's transformation.
+  const chartUserSeries = useMemo(
+    () => userSeries.map(series => transformUserSeries(series, series.indicator ? transforms[series.indicator] : undefined)),
+    [transforms, userSeries],
+  );
+  // Checked on the client too, so streamed rows, retried series and older vintages are covered.
+  const anomalies = useMemo(() => (data ? checkPlausibility(data, displayedIndicators) : []), [data, displayedIndicators]);
+  // Projections are fitted to the data as fetched, so transformed series don't get one.
+  const projectionResult = useMemo(() => {
+    if (!data || data.length === 0 || !projectionMethod) return { projections: [], skipped: [] };
+    const keys = displayedIndicators.filter(key => !transforms[key] || transforms[key]!.kind === 'none');
+    return projectIndicators(data, keys, {
+      method: projectionMethod,
+      throughMonth: addMonths(data[data.length - 1].month, PROJECTION_EXTENSION_MONTHS),
     });
+  }, [data, displayedIndicators, projectionMethod, transforms]);
+  // Rules are checked against the data as fetched, before any transformation.
+  const alertResults = useMemo(() => {
+    if (!data) return [];
+    const customRules = customAlertRules.filter(rule => displayedIndicators.includes(rule.indicator));
+    return evaluateAlertRules([...getRegistryAlertRules(displayedIndicators), ...customRules], data);
+  }, [customAlertRules, data, displayedIndicators]);
+  const hasQuarterlySelected = displayedIndicators.some(key => getIndicator(key).frequency === 'quarterly');
+
+  const handleExport = useCallback(async (format: ExportFormat) => {
+    if (!chartData || chartData.length === 0) return;
 
-    const csvContent = [headers, ...rows].join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', 'philippine-economic-data.csv');
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-  }, [data]);
+    // Export all the indicators that are currently displayed on the chart, as transformed.
+    const table = buildExportTable(chartData, displayedIndicators, chartMetadata, sources, fetchedAt);
+    try {
+      await exportData(format, table, chartContainerRef.current);
+    } catch (err) {
+      console.error("Export failed:", err);
+      alert(err instanceof Error ? err.message : 'Export failed.');
+    }
+  }, [chartData, chartMetadata, displayedIndicators, fetchedAt, sources]);
 
   const renderContent = () => {
-    if (isLoading) {
+    if (isLoading && (!data || data.length === 0)) {
       return (
         <div className="flex flex-col items-center justify-center h-full min-h-[400px] text-center p-8">
           <svg className="animate-spin h-10 w-10 text-blue-400 mb-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -137,6 +384,14 @@ const App: React.FC = () => {
           </svg>
           <p className="text-xl font-semibold text-gray-300">{loadingMessage}</p>
           <p className="text-gray-400 mt-2">This may take a moment as we gather the latest information.</p>
+          {!selectedVintageId && (
+            <button
+              onClick={handleCancel}
+              className="mt-6 px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-opacity-50 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
         </div>
       );
     }
@@ -155,7 +410,7 @@ const App: React.FC = () => {
             <p className="text-red-400 mt-2 max-w-2xl">{message}</p>
           )}
           <button
-            onClick={loadData}
+            onClick={() => loadData()}
             className="mt-6 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 transition-colors"
           >
             Retry
@@ -164,6 +419,17 @@ const App: React.FC = () => {
       );
     }
     
+    if (displayedIndicators.length === 0) {
+      return (
+        <div className="flex flex-col items-center justify-center h-full min-h-[400px] text-center p-8">
+          <h3 className="text-xl font-semibold text-gray-300">No Indicators Selected</h3>
+          <p className="text-gray-400 mt-2 max-w-sm">
+            Choose one or more indicators from the panel to chart them.
+          </p>
+        </div>
+      );
+    }
+
     if (data) {
       if (data.length === 0) {
         return (
@@ -178,7 +444,102 @@ const App: React.FC = () => {
           </div>
         );
       }
-      return <EconomicChart data={data} displayedIndicators={ALL_INDICATORS} />;
+      return (
+        <>
+          {/* Rows are charted as they stream in; the final result replaces them. */}
+          {isLoading && (
+            <div className="flex items-center justify-between gap-3 mb-3 p-2 rounded-lg bg-blue-900/20 border border-blue-500/40 text-sm text-blue-200">
+              <div className="flex items-center gap-2">
+                <svg className="animate-spin h-4 w-4 text-blue-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+                <span>{`${loadingMessage} Showing ${data.length} months received so far.`}</span>
+              </div>
+              <button onClick={handleCancel} className="text-xs text-gray-300 hover:text-white underline focus:outline-none">
+                Cancel
+              </button>
+            </div>
+          )}
+          <div className="flex flex-wrap justify-end items-center gap-4 mb-2">
+            {hasQuarterlySelected && (
+              <label className="flex items-center space-x-2 text-xs text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={interpolateQuarterlySeries}
+                  onChange={e => setInterpolateQuarterlySeries(e.target.checked)}
+                  className="accent-blue-500"
+                />
+                <span>Interpolate quarterly series</span>
+              </label>
+            )}
+            {!selectedVintageId && (
+              <label className="flex items-center space-x-2 text-xs text-gray-400" title="Runs the extraction several times and charts the median, with the range of answers as a band.">
+                <span>Extractions</span>
+                <select
+                  value={ensembleRuns}
+                  onChange={e => setEnsembleRuns(Number(e.target.value))}
+                  disabled={isLoading}
+                  className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-1 py-0.5 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {Array.from({ length: MAX_ENSEMBLE_RUNS }, (_, index) => index + 1).filter(runs => runs === 1 || runs % 2 === 1).map(runs => (
+                    <option key={runs} value={runs}>{runs === 1 ? 'Single' : `${runs}× consensus`}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="flex items-center space-x-2 text-xs text-gray-400" title="Extends each series from its latest released value with a statistical model, to compare with the sourced forecast.">
+              <span>Projection</span>
+              <select
+                value={projectionMethod ?? ''}
+                onChange={e => setProjectionMethod((e.target.value || null) as ProjectionMethod | null)}
+                className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-1 py-0.5 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Off</option>
+                {PROJECTION_METHOD_OPTIONS.map(option => (
+                  <option key={option.method} value={option.method}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <ChartModeToggle mode={chartMode} onChange={setChartMode} />
+          </div>
+          <div ref={chartContainerRef}>
+            {chartMode === 'panels' ? (
+              <SmallMultiplesChart data={chartData!} displayedIndicators={displayedIndicators} metadata={chartMetadata} userSeries={chartUserSeries} alertResults={alertResults} anomalies={anomalies} projections={projectionResult.projections} scenario={chartScenario} annotations={chartAnnotations} />
+            ) : (
+              <EconomicChart data={chartData!} displayedIndicators={displayedIndicators} metadata={chartMetadata} userSeries={chartUserSeries} alertResults={alertResults} anomalies={anomalies} projections={projectionResult.projections} scenario={chartScenario} annotations={chartAnnotations} />
+            )}
+          </div>
+          {vintageIndicators && (vintageIndicators.length !== selectedIndicators.length || vintageIndicators.some(key => !selectedIndicators.includes(key))) && (
+            <p className="mt-2 text-xs text-yellow-300">
+              This vintage was saved with a different set of indicators from your selection, so it is charted with its own.
+            </p>
+          )}
+          {fetchedAt && (
+            <div className="flex justify-end items-center mt-2 text-xs text-gray-500">
+              <span>{`Last fetched ${new Date(fetchedAt).toLocaleString()}`}</span>
+              {!selectedVintageId && (
+                <button
+                  onClick={() => loadData(true)}
+                  className="ml-3 text-blue-400 hover:text-blue-300 underline focus:outline-none"
+                >
+                  Refresh
+                </button>
+              )}
+            </div>
+          )}
+          {projectionResult.skipped.length > 0 && (
+            <ul className="mt-2 text-xs text-gray-500 space-y-0.5">
+              {projectionResult.skipped.map(skip => (
+                <li key={skip.indicator}>{`No projection for ${getIndicator(skip.indicator).name}: ${skip.reason}`}</li>
+              ))}
+            </ul>
+          )}
+          <FailedIndicators status={indicatorStatus} retrying={retryingIndicators} onRetry={handleRetryIndicator} />
+          <AnomalyWarnings anomalies={anomalies} />
+          <DataWarnings warnings={warnings} />
+        </>
+      );
     }
 
     return (
@@ -208,30 +569,121 @@ const App: React.FC = () => {
 
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
           {/* Left Panel: Displayed Indicators Info */}
-          <aside className="lg:col-span-1">
-            <div className="sticky top-6 bg-gray-800/50 backdrop-blur-sm p-4 sm:p-5 rounded-2xl shadow-2xl border border-gray-700">
+          <aside className="lg:col-span-1 space-y-6">
+            <div className="bg-gray-800/50 backdrop-blur-sm p-4 sm:p-5 rounded-2xl shadow-2xl border border-gray-700">
               <IndicatorPanel
-                displayedIndicators={ALL_INDICATORS}
-                onExportCSV={handleExportCSV}
+                selectedIndicators={selectedIndicators}
+                onSelectionChange={setSelectedIndicators}
+                isSelectionDisabled={isLoading}
+                onExport={handleExport}
                 isExportDisabled={isLoading || !data || data.length === 0}
               />
             </div>
+            <div className="bg-gray-800/50 backdrop-blur-sm p-4 sm:p-5 rounded-2xl shadow-2xl border border-gray-700">
+              <TransformPanel
+                indicators={displayedIndicators}
+                months={data?.map(row => row.month) ?? []}
+                interpolated={interpolateQuarterlySeries}
+                settings={transforms}
+                onChange={setTransforms}
+              />
+            </div>
+            <div className="bg-gray-800/50 backdrop-blur-sm p-4 sm:p-5 rounded-2xl shadow-2xl border border-gray-700">
+              <ImportPanel
+                userSeries={userSeries}
+                onAdd={series => setUserSeries(current => [...current, ...series])}
+                onRemove={id => setUserSeries(current => current.filter(series => series.id !== id))}
+              />
+            </div>
           </aside>
 
           {/* Center Panel: Chart */}
           <main className="lg:col-span-2">
             <section className="bg-gray-800/50 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-2xl border border-gray-700">
+              <DateRangeControl range={range} onApply={setRange} isDisabled={isLoading} />
+              {vintages.length > 0 && (
+                <VintagePicker
+                  vintages={vintages}
+                  selectedVintageId={selectedVintageId}
+                  onSelect={handleSelectVintage}
+                  isDisabled={isLoading}
+                />
+              )}
               <div className="min-h-[420px] flex flex-col justify-center">
                 {renderContent()}
               </div>
             </section>
+            {data && data.length > 0 && (
+              <section className="mt-6 bg-gray-800/50 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-2xl border border-gray-700">
+                <AnnotationPanel
+                  annotations={annotations}
+                  categories={annotationCategories}
+                  months={range}
+                  onCategoriesChange={setAnnotationCategories}
+                  onCreate={async annotation => {
+                    const created = await createAnnotation(annotation);
+                    setAnnotations(current => [...current, created].sort((a, b) => a.date.localeCompare(b.date)));
+                  }}
+                />
+              </section>
+            )}
+            {data && data.length > 0 && getPolicyCorridor() && (
+              <section className="mt-6 bg-gray-800/50 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-2xl border border-gray-700">
+                <PolicyCorridorChart
+                  data={data}
+                  selectedIndicators={displayedIndicators}
+                  onAddIndicators={keys => setSelectedIndicators(current => getIndicatorKeys().filter(key => current.includes(key) || keys.includes(key)))}
+                />
+              </section>
+            )}
+            {data && data.length > 0 && (
+              <section className="mt-6 bg-gray-800/50 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-2xl border border-gray-700">
+                <AlertsPanel
+                  results={alertResults}
+                  customRules={customAlertRules}
+                  onAddRule={rule => setCustomAlertRules(current => [...current, rule])}
+                  onRemoveRule={id => setCustomAlertRules(current => current.filter(rule => rule.id !== id))}
+                />
+              </section>
+            )}
+            {data && data.length > 0 && (
+              <section className="mt-6 bg-gray-800/50 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-2xl border border-gray-700">
+                <ScenarioPanel
+                  scenarios={scenarios}
+                  activeScenarioId={activeScenarioId}
+                  effects={scenarioEffects}
+                  defaultMonths={{ startMonth: toMonth(new Date()), endMonth: range.endMonth }}
+                  onSelect={setActiveScenarioId}
+                  onSave={scenario => {
+                    setScenarios(current => (current.some(existing => existing.id === scenario.id)
+                      ? current.map(existing => (existing.id === scenario.id ? scenario : existing))
+                      : [...current, scenario]));
+                    setActiveScenarioId(scenario.id);
+                  }}
+                  onDelete={id => {
+                    setScenarios(current => current.filter(scenario => scenario.id !== id));
+                    setActiveScenarioId(current => (current === id ? null : current));
+                  }}
+                />
+              </section>
+            )}
+            {data && data.length > 0 && (
+              <section className="mt-6 bg-gray-800/50 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-2xl border border-gray-700">
+                <AnalysisView data={data} indicators={displayedIndicators} />
+              </section>
+            )}
+            {vintages.length >= 2 && (
+              <section className="mt-6 bg-gray-800/50 backdrop-blur-sm p-4 sm:p-6 rounded-2xl shadow-2xl border border-gray-700">
+                <RevisionView vintages={vintages} />
+              </section>
+            )}
           </main>
           
           {/* Right Panel: Sources */}
           <aside className="lg:col-span-1">
-             { !isLoading && !error && sources.length > 0 && (
+             { !error && sources.length > 0 && (
                 <div className="sticky top-6 bg-gray-800/50 backdrop-blur-sm p-4 sm:p-5 rounded-2xl shadow-2xl border border-gray-700">
-                  <SourceList sources={sources} />
+                  <SourceList sources={sources} userSeries={userSeries} indicators={displayedIndicators} />
                 </div>
              )}
           </aside>
@@ -0,0 +1,89 @@
+// Serverless function evaluating alert rules against the latest data at /api/alerts.
+// GET /api/alerts[?indicators=<keys>&start=YYYY-MM&end=YYYY-MM&refresh=1] evaluates the rules in
+// the indicator registry; POST /api/alerts with { "rules": [...] } evaluates the given rules.
+
+import type { AlertRule, IndicatorKey } from '../types';
+import { getCachedEconomicData } from '../server/economicData';
+import { loadIndicatorRegistry } from '../server/indicatorRegistry';
+import { resolveMonthRange } from '../lib/months';
+import { evaluateAlertRules, getRegistryAlertRules, parseCustomAlertRule } from '../lib/alerts';
+import { isIndicatorKey } from '../lib/indicators';
+
+const MAX_RULES = 100;
+
+export default async function handler(req, res) {
+  // Allow requests from the frontend origin
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  // Handle preflight OPTIONS request for CORS
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  try {
+    await loadIndicatorRegistry();
+  } catch (error) {
+    console.error("Error in serverless function:", error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+    return res.status(500).json({ message: "Failed to load the indicator registry.", details: errorMessage });
+  }
+
+  const { indicators, refresh, start, end } = req.query;
+
+  let rules: AlertRule[];
+  if (req.method === 'POST') {
+    const body = req.body && typeof req.body === 'object' ? req.body : {};
+    if (!Array.isArray(body.rules) || body.rules.length === 0 || body.rules.length > MAX_RULES) {
+      return res.status(400).json({ message: `Bad Request: The body must contain a "rules" array of 1 to ${MAX_RULES} rules.` });
+    }
+    const parsed = body.rules.map((rule, index) => parseCustomAlertRule(rule, `Rule ${index + 1}`));
+    const problems = parsed.flatMap(result => result.problems);
+    if (problems.length > 0) {
+      return res.status(400).json({ message: `Bad Request: ${problems.join(' ')}` });
+    }
+    rules = parsed.map(result => result.rule!);
+  } else {
+    if (indicators !== undefined && typeof indicators !== 'string') {
+      return res.status(400).json({ message: 'Bad Request: "indicators" query parameter must be a string.' });
+    }
+    const indicatorKeys = indicators ? indicators.split(',') as IndicatorKey[] : undefined;
+    if (indicatorKeys && !indicatorKeys.every(isIndicatorKey)) {
+      return res.status(400).json({ message: 'Bad Request: One or more invalid indicator keys provided.' });
+    }
+    rules = getRegistryAlertRules(indicatorKeys);
+  }
+
+  const range = resolveMonthRange(start, end);
+  if ('error' in range) {
+    return res.status(400).json({ message: `Bad Request: ${range.error}` });
+  }
+
+  try {
+    const indicatorKeys = [...new Set(rules.map(rule => rule.indicator))];
+    const response = indicatorKeys.length === 0 ? null : (await getCachedEconomicData(indicatorKeys, range, {
+      bypass: refresh === '1' || refresh === 'true',
+    })).value;
+    const results = response ? evaluateAlertRules(rules, response.data) : [];
+
+    // Alerts are meant to be polled, so they are never cached by clients.
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).json({
+      evaluatedAt: new Date().toISOString(),
+      fetchedAt: response?.fetchedAt ?? null,
+      ...range,
+      activeCount: results.filter(result => result.isActive).length,
+      results,
+    });
+  } catch (error) {
+    console.error("Error in serverless function:", error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+    res.status(500).json({ message: "Failed to evaluate alerts.", details: errorMessage });
+  }
+}
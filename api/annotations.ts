@@ -0,0 +1,71 @@
+// Serverless function for event annotations at /api/annotations.
+// GET /api/annotations[?category=<categories>&start=YYYY-MM&end=YYYY-MM] lists annotations by date;
+// POST /api/annotations with { "date", "title", "category", "url"? } stores a new one.
+
+import type { AnnotationCategory } from '../types';
+import { ANNOTATION_CATEGORIES } from '../types';
+import { createAnnotationStore } from '../server/annotationStore';
+import { getAnnotationMonth, parseNewAnnotation } from '../lib/annotations';
+import { isValidMonth } from '../lib/months';
+
+const annotationStore = createAnnotationStore();
+
+export default async function handler(req, res) {
+  // Allow requests from the frontend origin
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  // Handle preflight OPTIONS request for CORS
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  if (req.method === 'POST') {
+    const { annotation, problems } = parseNewAnnotation(req.body, 'The annotation');
+    if (!annotation) {
+      return res.status(400).json({ message: `Bad Request: ${problems.join(' ')}` });
+    }
+    try {
+      const created = await annotationStore.create(annotation);
+      return res.status(201).json({ annotation: created });
+    } catch (error) {
+      console.error("Error in serverless function:", error);
+      const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+      return res.status(500).json({ message: "Failed to save the annotation.", details: errorMessage });
+    }
+  }
+
+  const { category, start, end } = req.query;
+
+  if (category !== undefined && typeof category !== 'string') {
+    return res.status(400).json({ message: 'Bad Request: "category" query parameter must be a string.' });
+  }
+  const categories = category ? category.split(',') as AnnotationCategory[] : ANNOTATION_CATEGORIES;
+  if (!categories.every(value => ANNOTATION_CATEGORIES.includes(value))) {
+    return res.status(400).json({ message: `Bad Request: "category" must list any of ${ANNOTATION_CATEGORIES.join(', ')}.` });
+  }
+  if ((start !== undefined && !isValidMonth(start)) || (end !== undefined && !isValidMonth(end))) {
+    return res.status(400).json({ message: 'Bad Request: "start" and "end" must be months in YYYY-MM format.' });
+  }
+
+  try {
+    const annotations = (await annotationStore.list()).filter(annotation => {
+      const month = getAnnotationMonth(annotation);
+      return categories.includes(annotation.category) && (!start || month >= start) && (!end || month <= end);
+    });
+
+    // New annotations can be added at any time.
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).json({ annotations });
+  } catch (error) {
+    console.error("Error in serverless function:", error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+    res.status(500).json({ message: "Failed to load annotations.", details: errorMessage });
+  }
+}
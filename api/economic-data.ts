@@ -2,98 +2,54 @@
 // It securely uses the API key on the server and is not exposed to the client browser.
 // When deployed, Vercel automatically creates an API endpoint at /api/economic-data.
 
-import { GoogleGenAI } from "@google/genai";
-import type { EconomicIndicator, IndicatorKey, Source } from '../types';
-import { INDICATORS_MAP } from '../types';
-
-// The core logic for fetching data from the Gemini API
-async function getEconomicData(indicatorKeys: IndicatorKey[]): Promise<{ data: EconomicIndicator[], sources: Source[] }> {
-  if (!process.env.API_KEY) {
-    // This error is logged on the server, not shown to the user directly.
-    throw new Error("API_KEY environment variable not set on the server.");
-  }
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-  const indicatorDetails = indicatorKeys.map(key => {
-    const meta = INDICATORS_MAP[key];
-    // Create a mapping from the JSON key to the full name for the prompt
-    return {
-      key: key,
-      name: `${meta.name} (${meta.unit})`
-    };
-  });
-  
-  const indicatorNamesList = indicatorDetails.map(d => `- ${d.name}`).join('\n');
-  const jsonExampleFields = indicatorKeys.map(key => `"${key}": 1.23`).join(',\n  ');
-
-
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: `
-**Primary Directive: Use Google Search to find verifiable economic outlook and forecast data for the Philippines.**
-
-Your role is a financial data analyst. You **MUST** use the Google Search tool to gather a forecast of monthly data for these specific indicators in the Philippines, starting from the most recent available month and extending up to **and including October 2025**.
-${indicatorNamesList}
-
-**Output Requirements:**
-1.  The output **MUST** be a single, valid JSON object. Do not add any text, markdown, or explanations before or after the JSON.
-2.  The JSON object must have a single top-level key: "data".
-3.  The "data" key must contain an array of objects, where each object represents one month of data. Each object must include the "month" key.
-4.  For any requested indicator where data cannot be found for a specific month, the value should be \`null\`. Do not omit the key.
-5.  **Crucially, all data must be sourced from your Google Search results.** The API response must include the grounding metadata from your searches. Do not use internal or pre-existing knowledge.
-
-Example for one object in the "data" array for the requested indicators:
-{
-  "month": "YYYY-MM",
-  ${jsonExampleFields}
-}
-`,
-    config: {
-      tools: [{ googleSearch: {} }],
-    },
-  });
-
-  const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
-  // Extract web sources from grounding metadata, format them, and remove duplicates.
-  const webSources: Source[] = [];
-  if (groundingMetadata?.groundingChunks) {
-    const uniqueSources = new Map<string, Source>();
-    for (const chunk of groundingMetadata.groundingChunks) {
-        if (chunk.web?.uri && chunk.web?.title) {
-            // Use URI as the key to ensure uniqueness
-            uniqueSources.set(chunk.web.uri, { title: chunk.web.title, uri: chunk.web.uri });
-        }
-    }
-    webSources.push(...uniqueSources.values());
-  }
-
-  // Robustly parse the JSON from the response text.
-  let jsonText = response.text.trim();
-  const jsonStart = jsonText.indexOf('{');
-  const jsonEnd = jsonText.lastIndexOf('}');
-
-  if (jsonStart !== -1 && jsonEnd > jsonStart) {
-    jsonText = jsonText.substring(jsonStart, jsonEnd + 1).trim();
-  }
+import { createHash } from 'crypto';
+import type { EconomicDataResponse, EconomicDataStreamEvent, IndicatorKey } from '../types';
+import { getCachedEconomicData, peekCachedEconomicData } from '../server/economicData';
+import type { MonthRange } from '../lib/months';
+import { resolveMonthRange } from '../lib/months';
+import { getIndicatorKeys } from '../lib/indicators';
+import { MAX_ENSEMBLE_RUNS } from '../lib/ensemble';
+import { loadIndicatorRegistry } from '../server/indicatorRegistry';
+
+const computeETag = (payload: EconomicDataResponse): string => {
+  return `"${createHash('sha1').update(JSON.stringify(payload)).digest('base64url')}"`;
+};
+
+// Streams progress as newline-delimited JSON, one EconomicDataStreamEvent per line, ending with
+// either a `result` or an `error` event. Headers are sent before the result is known, so its ETag
+// travels in the `result` event instead. A client that disconnects simply stops receiving events;
+// the fetch itself runs to completion so its result is still cached.
+async function streamEconomicData(
+  req,
+  res,
+  indicatorKeys: IndicatorKey[],
+  range: MonthRange,
+  options: { bypass: boolean; ensembleRuns: number; archive: boolean },
+) {
+  let isClosed = false;
+  req.on('close', () => { isClosed = true; });
+  const send = (event: EconomicDataStreamEvent) => {
+    if (!isClosed && !res.writableEnded) res.write(`${JSON.stringify(event)}\n`);
+  };
+
+  res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache');
+  // Stops proxies from buffering the stream.
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.status(200);
+  res.flushHeaders?.();
 
   try {
-    const parsedResult = JSON.parse(jsonText);
-    
-    if (parsedResult && Array.isArray(parsedResult.data)) {
-      // Construct the final object with data from the model and sources from grounding.
-      return {
-        data: parsedResult.data,
-        sources: webSources,
-      };
-    } else {
-      console.error("Parsed JSON does not match expected structure. Parsed object:", parsedResult);
-      throw new Error("Parsed data from Gemini is not in the expected format.");
-    }
+    const { value: result } = await getCachedEconomicData(indicatorKeys, range, { ...options, onEvent: send });
+    send({ type: 'result', response: result, etag: computeETag(result) });
   } catch (error) {
-    console.error("Failed to parse JSON from Gemini response. Raw text:", response.text);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown parsing error';
-    throw new Error(`Failed to parse JSON from the AI's response. Details: ${errorMessage}`);
+    console.error("Error in serverless function:", error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+    send({ type: 'error', message: "Failed to fetch economic data.", details: errorMessage });
   }
+  // A stale entry is revalidated in the background; its events must not reach this response.
+  isClosed = true;
+  res.end();
 }
 
 // Vercel serverless function handler
@@ -102,7 +58,8 @@ export default async function handler(req, res) {
   // Allow requests from the frontend origin
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, If-None-Match');
+  res.setHeader('Access-Control-Expose-Headers', 'ETag, X-Cache');
 
   // Handle preflight OPTIONS request for CORS
   if (req.method === 'OPTIONS') {
@@ -114,26 +71,75 @@ export default async function handler(req, res) {
     return res.status(405).json({ message: 'Method Not Allowed' });
   }
   
-  const { indicators } = req.query;
+  const { indicators, refresh, start, end, stream, ensemble, archive } = req.query;
 
   if (!indicators || typeof indicators !== 'string') {
     return res.status(400).json({ message: 'Bad Request: "indicators" query parameter is required and must be a string.' });
   }
 
+  try {
+    // Requests are validated against the registry file as it is now.
+    await loadIndicatorRegistry();
+  } catch (error) {
+    console.error("Error in serverless function:", error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+    return res.status(500).json({ message: "Failed to load the indicator registry.", details: errorMessage });
+  }
+
   const indicatorKeys = indicators.split(',') as IndicatorKey[];
   
-  // Validate that all provided keys are valid IndicatorKeys
-  const validKeys = Object.keys(INDICATORS_MAP);
+  // Validate that all provided keys are registered indicators
+  const validKeys = getIndicatorKeys();
   const allKeysValid = indicatorKeys.every(key => validKeys.includes(key));
   if (!allKeysValid) {
       return res.status(400).json({ message: 'Bad Request: One or more invalid indicator keys provided.' });
   }
 
+  const range = resolveMonthRange(start, end);
+  if ('error' in range) {
+    return res.status(400).json({ message: `Bad Request: ${range.error}` });
+  }
+
+  const ensembleRuns = ensemble === undefined ? 1 : Number(ensemble);
+  if (!Number.isInteger(ensembleRuns) || ensembleRuns < 1 || ensembleRuns > MAX_ENSEMBLE_RUNS) {
+    return res.status(400).json({ message: `Bad Request: "ensemble" must be a whole number from 1 to ${MAX_ENSEMBLE_RUNS}.` });
+  }
+  const bypass = refresh === '1' || refresh === 'true';
+  // Lets clients such as the dashboard's per-indicator retry fetch without adding a vintage.
+  const shouldArchive = archive !== '0' && archive !== 'false';
+
+  if (stream === '1' || stream === 'true') {
+    // A conditional request is answered from the cache before streaming, if nothing changed.
+    const ifNoneMatch = req.headers['if-none-match'];
+    if (ifNoneMatch && !bypass) {
+      try {
+        const cached = await peekCachedEconomicData(indicatorKeys, range, { ensembleRuns });
+        if (cached && computeETag(cached.value) === ifNoneMatch) {
+          res.setHeader('Cache-Control', 'no-cache');
+          res.setHeader('ETag', ifNoneMatch);
+          res.setHeader('X-Cache', cached.status);
+          return res.status(304).end();
+        }
+      } catch (error) {
+        // Fall back to streaming, which reports any lasting cache failure itself.
+        console.error("Error in serverless function:", error);
+      }
+    }
+    return streamEconomicData(req, res, indicatorKeys, range, { bypass, ensembleRuns, archive: shouldArchive });
+  }
 
   try {
-    const result = await getEconomicData(indicatorKeys);
-    // Vercel enables caching by default. 'no-store' prevents stale data.
-    res.setHeader('Cache-Control', 'no-store');
+    const { value: result, status } = await getCachedEconomicData(indicatorKeys, range, { bypass, ensembleRuns, archive: shouldArchive });
+    const etag = computeETag(result);
+
+    // Caching happens in our own store; clients must revalidate, which the ETag makes cheap.
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('ETag', etag);
+    res.setHeader('X-Cache', status);
+
+    if (req.headers['if-none-match'] === etag) {
+      return res.status(304).end();
+    }
     res.status(200).json(result);
   } catch (error) {
     console.error("Error in serverless function:", error);
@@ -0,0 +1,32 @@
+// Serverless function exposing the indicator registry at /api/indicators.
+// GET /api/indicators returns the groups and indicators declared in the registry file.
+
+import { loadIndicatorRegistry } from '../server/indicatorRegistry';
+
+export default async function handler(req, res) {
+  // Allow requests from the frontend origin
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  // Handle preflight OPTIONS request for CORS
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  try {
+    const config = await loadIndicatorRegistry();
+    // The registry can be edited at any time, so clients always revalidate.
+    res.setHeader('Cache-Control', 'no-cache');
+    res.status(200).json(config);
+  } catch (error) {
+    console.error("Error in serverless function:", error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+    res.status(500).json({ message: "Failed to load the indicator registry.", details: errorMessage });
+  }
+}
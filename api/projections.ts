@@ -0,0 +1,88 @@
+// Serverless function projecting indicators beyond their latest released values at /api/projections.
+// GET /api/projections?indicators=<keys>[&method=<method>&level=80|95&through=YYYY-MM&start=YYYY-MM&end=YYYY-MM&refresh=1]
+// fits a statistical model to each indicator's released history and returns its projection.
+
+import type { IndicatorKey, ProjectionMethod } from '../types';
+import { PROJECTION_LEVELS, PROJECTION_METHODS } from '../types';
+import { getCachedEconomicData } from '../server/economicData';
+import { loadIndicatorRegistry } from '../server/indicatorRegistry';
+import { addMonths, isValidMonth, resolveMonthRange } from '../lib/months';
+import { isIndicatorKey } from '../lib/indicators';
+import { DEFAULT_PROJECTION_LEVEL, PROJECTION_EXTENSION_MONTHS, projectIndicators } from '../lib/projections';
+
+export default async function handler(req, res) {
+  // Allow requests from the frontend origin
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  // Handle preflight OPTIONS request for CORS
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  try {
+    await loadIndicatorRegistry();
+  } catch (error) {
+    console.error("Error in serverless function:", error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+    return res.status(500).json({ message: "Failed to load the indicator registry.", details: errorMessage });
+  }
+
+  const { indicators, method = 'exponentialSmoothing', level, through, refresh, start, end } = req.query;
+
+  if (!indicators || typeof indicators !== 'string') {
+    return res.status(400).json({ message: 'Bad Request: "indicators" query parameter is required and must be a string.' });
+  }
+  const indicatorKeys = indicators.split(',') as IndicatorKey[];
+  if (!indicatorKeys.every(isIndicatorKey)) {
+    return res.status(400).json({ message: 'Bad Request: One or more invalid indicator keys provided.' });
+  }
+  if (!PROJECTION_METHODS.includes(method)) {
+    return res.status(400).json({ message: `Bad Request: "method" must be one of ${PROJECTION_METHODS.join(', ')}.` });
+  }
+  const projectionLevel = level === undefined ? DEFAULT_PROJECTION_LEVEL : PROJECTION_LEVELS.find(option => String(option) === level);
+  if (projectionLevel === undefined) {
+    return res.status(400).json({ message: `Bad Request: "level" must be one of ${PROJECTION_LEVELS.join(', ')}.` });
+  }
+  if (through !== undefined && !isValidMonth(through)) {
+    return res.status(400).json({ message: 'Bad Request: "through" must be a month in YYYY-MM format.' });
+  }
+
+  const range = resolveMonthRange(start, end);
+  if ('error' in range) {
+    return res.status(400).json({ message: `Bad Request: ${range.error}` });
+  }
+  const throughMonth = through ?? addMonths(range.endMonth, PROJECTION_EXTENSION_MONTHS);
+
+  try {
+    const { value: response } = await getCachedEconomicData(indicatorKeys, range, {
+      bypass: refresh === '1' || refresh === 'true',
+    });
+    const { projections, skipped } = projectIndicators(response.data, indicatorKeys, {
+      method: method as ProjectionMethod,
+      level: projectionLevel,
+      throughMonth,
+    });
+
+    res.status(200).json({
+      generatedAt: new Date().toISOString(),
+      fetchedAt: response.fetchedAt,
+      ...range,
+      throughMonth,
+      method,
+      level: projectionLevel,
+      projections,
+      skipped,
+    });
+  } catch (error) {
+    console.error("Error in serverless function:", error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+    res.status(500).json({ message: "Failed to project the indicators.", details: errorMessage });
+  }
+}
@@ -0,0 +1,69 @@
+// Serverless function computing forecast revisions between stored vintages at /api/vintage-diff.
+// GET /api/vintage-diff?ids=<id>,<id>[,...]&indicator=<key> returns how each month's value changed.
+
+import type { IndicatorKey } from '../types';
+import { diffVintages } from '../lib/revisions';
+import { createVintageStore } from '../server/vintageStore';
+import { isIndicatorKey } from '../lib/indicators';
+import { loadIndicatorRegistry } from '../server/indicatorRegistry';
+
+const MAX_VINTAGES = 10;
+const DIFF_MAX_AGE_SECONDS = 300;
+
+const vintageStore = createVintageStore();
+
+export default async function handler(req, res) {
+  // Allow requests from the frontend origin
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  // Handle preflight OPTIONS request for CORS
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  const { ids, indicator } = req.query;
+
+  if (!ids || typeof ids !== 'string') {
+    return res.status(400).json({ message: 'Bad Request: "ids" query parameter is required and must be a string.' });
+  }
+  try {
+    await loadIndicatorRegistry();
+  } catch (error) {
+    console.error("Error in serverless function:", error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+    return res.status(500).json({ message: "Failed to load the indicator registry.", details: errorMessage });
+  }
+  if (!indicator || typeof indicator !== 'string' || !isIndicatorKey(indicator)) {
+    return res.status(400).json({ message: 'Bad Request: "indicator" query parameter must be a valid indicator key.' });
+  }
+
+  const vintageIds = [...new Set(ids.split(',').map(id => id.trim()).filter(Boolean))];
+  if (vintageIds.length < 2 || vintageIds.length > MAX_VINTAGES) {
+    return res.status(400).json({ message: `Bad Request: Provide between 2 and ${MAX_VINTAGES} distinct vintage ids.` });
+  }
+
+  try {
+    const vintages = await Promise.all(vintageIds.map(id => vintageStore.get(id)));
+    const missing = vintageIds.filter((_, index) => !vintages[index]);
+    if (missing.length > 0) {
+      return res.status(404).json({ message: `Vintage(s) not found: ${missing.join(', ')}.` });
+    }
+
+    const diff = diffVintages(vintages.map(v => v!), indicator as IndicatorKey);
+    // A vintage's contents don't change, but the store may drop or rewrite it, so only a successful
+    // diff is cached, and not for long.
+    res.setHeader('Cache-Control', `public, max-age=${DIFF_MAX_AGE_SECONDS}`);
+    res.status(200).json(diff);
+  } catch (error) {
+    console.error("Error in serverless function:", error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+    res.status(500).json({ message: "Failed to compute vintage diff.", details: errorMessage });
+  }
+}
@@ -0,0 +1,56 @@
+// Serverless function exposing stored vintages of economic data at /api/vintages.
+// GET /api/vintages lists vintages, newest first; GET /api/vintages?id=<id> returns a single vintage.
+
+import { createVintageStore } from '../server/vintageStore';
+
+const MAX_LIMIT = 200;
+
+const vintageStore = createVintageStore();
+
+export default async function handler(req, res) {
+  // Allow requests from the frontend origin
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  // Handle preflight OPTIONS request for CORS
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  const { id, limit } = req.query;
+
+  if (id !== undefined && typeof id !== 'string') {
+    return res.status(400).json({ message: 'Bad Request: "id" query parameter must be a string.' });
+  }
+
+  const parsedLimit = limit === undefined ? undefined : Number(limit);
+  if (parsedLimit !== undefined && (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > MAX_LIMIT)) {
+    return res.status(400).json({ message: `Bad Request: "limit" must be an integer between 1 and ${MAX_LIMIT}.` });
+  }
+
+  try {
+    // Vintages never change once written, but the list grows with every fetch.
+    res.setHeader('Cache-Control', 'no-store');
+
+    if (id) {
+      const vintage = await vintageStore.get(id);
+      if (!vintage) {
+        return res.status(404).json({ message: `Vintage "${id}" not found.` });
+      }
+      return res.status(200).json(vintage);
+    }
+
+    const vintages = await vintageStore.list(parsedLimit);
+    res.status(200).json({ vintages });
+  } catch (error) {
+    console.error("Error in serverless function:", error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred.';
+    res.status(500).json({ message: "Failed to load vintages.", details: errorMessage });
+  }
+}
@@ -0,0 +1,242 @@
+
+import React, { useState } from 'react';
+import { ALERT_CONDITIONS, AlertCondition, AlertResult, AlertRule, IndicatorKey } from '../types';
+import { describeAlertRule, parseCustomAlertRule } from '../lib/alerts';
+import { MAX_CONSECUTIVE_MONTHS } from '../lib/alertRules';
+import { formatValue } from '../lib/format';
+import { getIndicator, getIndicatorKeys } from '../lib/indicators';
+
+interface AlertsPanelProps {
+  results: AlertResult[];
+  customRules: AlertRule[];
+  onAddRule: (rule: AlertRule) => void;
+  onRemoveRule: (id: string) => void;
+}
+
+interface RuleForm {
+  indicator: IndicatorKey;
+  name: string;
+  condition: AlertCondition;
+  value: string;
+  lower: string;
+  upper: string;
+  consecutiveMonths: string;
+}
+
+const CONDITION_LABELS: Record<AlertCondition, string> = {
+  above: 'Above',
+  below: 'Below',
+  outside: 'Outside band',
+};
+
+const inputClassName = 'bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500';
+const MAX_BREACHES_SHOWN = 3;
+
+const emptyForm = (): RuleForm => ({
+  indicator: getIndicatorKeys()[0] ?? '',
+  name: '',
+  condition: 'above',
+  value: '',
+  lower: '',
+  upper: '',
+  consecutiveMonths: '1',
+});
+
+// Orders results so active breaches come first, then forecast breaches, then the rest.
+const severity = (result: AlertResult): number => (result.isActive ? 0 : result.isForecastBreach ? 1 : 2);
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({ results, customRules, onAddRule, onRemoveRule }) => {
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const sorted = [...results].sort((a, b) => severity(a) - severity(b));
+  const activeCount = results.filter(result => result.isActive).length;
+  // Custom rules for indicators that aren't on the chart have no result yet, but can still be removed.
+  const idleCustomRules = customRules.filter(rule => !results.some(result => result.rule.id === rule.id));
+
+  const updateForm = (changes: Partial<RuleForm>) => setForm(current => (current ? { ...current, ...changes } : current));
+
+  const handleSave = () => {
+    if (!form) return;
+    const toNumber = (text: string) => (text.trim() === '' ? undefined : Number(text));
+    const { rule, problems } = parseCustomAlertRule({
+      indicator: form.indicator,
+      name: form.name,
+      condition: form.condition,
+      ...(form.condition === 'outside'
+        ? { lower: toNumber(form.lower), upper: toNumber(form.upper) }
+        : { value: toNumber(form.value) }),
+      consecutiveMonths: toNumber(form.consecutiveMonths),
+    }, 'The rule');
+    if (!rule) {
+      setFormError(problems.join(' '));
+      return;
+    }
+    onAddRule(rule);
+    setForm(null);
+    setFormError(null);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-100">
+          Alerts
+          {activeCount > 0 && (
+            <span className="ml-2 px-2 py-0.5 rounded-full bg-red-600 text-white text-xs font-semibold align-middle">{`${activeCount} active`}</span>
+          )}
+        </h2>
+        {!form && (
+          <button
+            onClick={() => setForm(emptyForm())}
+            className="px-3 py-1.5 bg-gray-600 text-white rounded-md hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-opacity-50 transition-colors text-sm"
+          >
+            Add rule
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <div className="p-3 mb-4 rounded-md bg-gray-700/30 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={form.indicator}
+              onChange={e => updateForm({ indicator: e.target.value })}
+              className={inputClassName}
+              aria-label="Indicator"
+            >
+              {getIndicatorKeys().map(key => (
+                <option key={key} value={key}>{getIndicator(key).name}</option>
+              ))}
+            </select>
+            <select
+              value={form.condition}
+              onChange={e => updateForm({ condition: e.target.value as AlertCondition })}
+              className={inputClassName}
+              aria-label="Condition"
+            >
+              {ALERT_CONDITIONS.map(condition => (
+                <option key={condition} value={condition}>{CONDITION_LABELS[condition]}</option>
+              ))}
+            </select>
+            {form.condition === 'outside' ? (
+              <>
+                <input type="number" step="any" value={form.lower} onChange={e => updateForm({ lower: e.target.value })} className={`${inputClassName} w-20`} placeholder="Lower" aria-label="Lower bound" />
+                <input type="number" step="any" value={form.upper} onChange={e => updateForm({ upper: e.target.value })} className={`${inputClassName} w-20`} placeholder="Upper" aria-label="Upper bound" />
+              </>
+            ) : (
+              <input type="number" step="any" value={form.value} onChange={e => updateForm({ value: e.target.value })} className={`${inputClassName} w-20`} placeholder="Value" aria-label="Threshold value" />
+            )}
+            <span className="text-xs text-gray-400">{getIndicator(form.indicator).unit}</span>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center space-x-2 text-xs text-gray-400">
+              <span>For at least</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_CONSECUTIVE_MONTHS}
+                value={form.consecutiveMonths}
+                onChange={e => updateForm({ consecutiveMonths: e.target.value })}
+                className={`${inputClassName} w-14`}
+              />
+              <span>consecutive months</span>
+            </label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={e => updateForm({ name: e.target.value })}
+              className={`${inputClassName} flex-1 min-w-[8rem]`}
+              placeholder="Rule name"
+              aria-label="Rule name"
+            />
+          </div>
+          {formError && <p className="text-xs text-red-400">{formError}</p>}
+          <div className="flex justify-end gap-2">
+            <button onClick={() => { setForm(null); setFormError(null); }} className="px-3 py-1 text-xs text-gray-300 hover:text-white focus:outline-none">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 text-xs"
+            >
+              Save rule
+            </button>
+          </div>
+        </div>
+      )}
+
+      {sorted.length === 0 && idleCustomRules.length === 0 && (
+        <p className="text-sm text-gray-400">No alert rules apply to the indicators on the chart.</p>
+      )}
+
+      <ul className="space-y-2">
+        {sorted.map(result => {
+          const { rule } = result;
+          const metadata = getIndicator(rule.indicator);
+          const statusClassName = result.isActive
+            ? 'border-red-500/60 bg-red-900/20'
+            : result.isForecastBreach ? 'border-yellow-600/50 bg-yellow-900/20' : 'border-gray-600 bg-gray-700/30';
+          return (
+            <li key={rule.id} className={`p-3 rounded-lg border text-sm ${statusClassName}`}>
+              <div className="flex justify-between items-start gap-2">
+                <div className="min-w-0">
+                  <p className="font-semibold text-gray-200">
+                    {rule.name}
+                    {rule.isCustom && <span className="ml-2 text-xs font-normal text-gray-400">(custom)</span>}
+                  </p>
+                  <p className="text-xs text-gray-400">{`${metadata.name} ${describeAlertRule(rule)}`}</p>
+                </div>
+                <span className={`text-xs font-semibold flex-shrink-0 ${result.isActive ? 'text-red-300' : result.isForecastBreach ? 'text-yellow-300' : 'text-green-300'}`}>
+                  {result.isActive ? 'Breached' : result.isForecastBreach ? 'Forecast breach' : 'OK'}
+                </span>
+              </div>
+              {result.latestMonth && result.latestValue !== null && (
+                <p className="text-xs text-gray-400 mt-1">{`Latest: ${formatValue(result.latestValue, metadata.unit)} (${result.latestMonth})`}</p>
+              )}
+              {result.breaches.length > 0 && (
+                <ul className="mt-1 text-xs text-gray-400 space-y-0.5">
+                  {result.breaches.slice(-MAX_BREACHES_SHOWN).reverse().map(breach => (
+                    <li key={breach.startMonth}>
+                      {breach.startMonth === breach.endMonth ? breach.startMonth : `${breach.startMonth} to ${breach.endMonth}`}
+                      {` · ${breach.months} month${breach.months === 1 ? '' : 's'}${breach.includesForecast ? ' · includes forecast' : ''}`}
+                    </li>
+                  ))}
+                  {result.breaches.length > MAX_BREACHES_SHOWN && (
+                    <li>{`…and ${result.breaches.length - MAX_BREACHES_SHOWN} earlier.`}</li>
+                  )}
+                </ul>
+              )}
+              {rule.isCustom && (
+                <button
+                  onClick={() => onRemoveRule(rule.id)}
+                  className="mt-1 text-xs text-gray-400 hover:text-red-400 focus:outline-none"
+                  aria-label={`Remove ${rule.name}`}
+                >
+                  Remove
+                </button>
+              )}
+            </li>
+          );
+        })}
+        {idleCustomRules.map(rule => (
+          <li key={rule.id} className="flex items-center justify-between p-3 rounded-lg border border-gray-700 bg-gray-700/20 text-sm">
+            <div className="min-w-0">
+              <p className="text-gray-400">{`${rule.name} (custom)`}</p>
+              <p className="text-xs text-gray-500">{`${getIndicator(rule.indicator).name} ${describeAlertRule(rule)} · not on the chart`}</p>
+            </div>
+            <button
+              onClick={() => onRemoveRule(rule.id)}
+              className="ml-2 text-xs text-gray-400 hover:text-red-400 focus:outline-none"
+              aria-label={`Remove ${rule.name}`}
+            >
+              Remove
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default AlertsPanel;
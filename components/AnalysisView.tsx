@@ -0,0 +1,203 @@
+
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, Cell, ScatterChart, Scatter, XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { EconomicIndicator, IndicatorKey } from '../types';
+import { DEFAULT_MAX_LAG, correlationMatrix, crossCorrelation, linearRegression, pairValues, strongestLag } from '../lib/correlation';
+import { TRANSFORM_OPTIONS, TransformKind, applyTransforms, describeTransform } from '../lib/transforms';
+import { formatValue } from '../lib/format';
+import { thinQuarterlyPeriods } from '../lib/frequency';
+
+interface AnalysisViewProps {
+  data: EconomicIndicator[];
+  indicators: IndicatorKey[];
+}
+
+// Levels of trending series correlate whether or not they are related, so changes can be compared instead.
+const COMPARE_OPTIONS = TRANSFORM_OPTIONS.filter(option => ['none', 'mom', 'yoy'].includes(option.kind));
+
+const selectClassName = 'bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Positive correlations are shaded red and negative ones blue, more strongly the closer they are to ±1.
+const cellColor = (r: number | undefined): string => {
+  if (r === undefined) return 'transparent';
+  return r >= 0 ? `rgba(239, 68, 68, ${Math.abs(r) * 0.8})` : `rgba(59, 130, 246, ${Math.abs(r) * 0.8})`;
+};
+
+const describeLag = (lag: number, xName: string, yName: string): string => {
+  if (lag === 0) return 'in the same month';
+  const months = `${Math.abs(lag)} month${Math.abs(lag) === 1 ? '' : 's'}`;
+  return lag > 0 ? `with ${xName} leading ${yName} by ${months}` : `with ${yName} leading ${xName} by ${months}`;
+};
+
+const AnalysisView: React.FC<AnalysisViewProps> = ({ data, indicators }) => {
+  const [compare, setCompare] = useState<TransformKind>('none');
+  const [includeForecasts, setIncludeForecasts] = useState<boolean>(false);
+  const [pair, setPair] = useState<{ x: IndicatorKey; y: IndicatorKey } | null>(null);
+  const [lag, setLag] = useState<number>(0);
+
+  // Changes are taken quarter on quarter for quarterly series, and each quarter is then counted
+  // once rather than once for every month it spans.
+  const series = useMemo(() => {
+    const compared = compare === 'none' ? data : applyTransforms(data, Object.fromEntries(indicators.map(key => [key, { kind: compare }])));
+    return thinQuarterlyPeriods(compared, indicators);
+  }, [compare, data, indicators]);
+  const matrix = useMemo(() => correlationMatrix(series, indicators, includeForecasts), [includeForecasts, indicators, series]);
+
+  // The chosen pair, falling back to the first two indicators when it is no longer selected.
+  const xKey = pair && indicators.includes(pair.x) ? pair.x : indicators[0];
+  const yKey = pair && indicators.includes(pair.y) && pair.y !== xKey ? pair.y : indicators.find(key => key !== xKey);
+
+  const lags = useMemo(
+    () => (xKey && yKey ? crossCorrelation(series, xKey, yKey, DEFAULT_MAX_LAG, includeForecasts) : []),
+    [includeForecasts, series, xKey, yKey],
+  );
+  const pairs = useMemo(
+    () => (xKey && yKey ? pairValues(series, xKey, yKey, { lag, includeForecasts }) : []),
+    [includeForecasts, lag, series, xKey, yKey],
+  );
+
+  if (indicators.length < 2 || !xKey || !yKey) {
+    return (
+      <div>
+        <h2 className="text-xl font-semibold text-gray-100 mb-4">Correlation Analysis</h2>
+        <p className="text-sm text-gray-400">Select at least two indicators to compare them.</p>
+      </div>
+    );
+  }
+
+  const getMetadata = (key: IndicatorKey) => describeTransform(key, { kind: compare });
+  const xMetadata = getMetadata(xKey);
+  const yMetadata = getMetadata(yKey);
+  const strongest = strongestLag(lags);
+  const regression = linearRegression(pairs);
+  const xValues = pairs.map(point => point.x);
+  const regressionLine = regression ? [Math.min(...xValues), Math.max(...xValues)].map(x => ({ x, y: regression.intercept + regression.slope * x })) : [];
+
+  const selectPair = (x: IndicatorKey, y: IndicatorKey) => {
+    setPair({ x, y });
+    setLag(0);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h2 className="text-xl font-semibold text-gray-100">Correlation Analysis</h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={compare} onChange={e => setCompare(e.target.value as TransformKind)} className={selectClassName} aria-label="Compare">
+            {COMPARE_OPTIONS.map(option => (
+              <option key={option.kind} value={option.kind}>{option.label}</option>
+            ))}
+          </select>
+          <label className="flex items-center space-x-2 text-xs text-gray-400 cursor-pointer">
+            <input type="checkbox" checked={includeForecasts} onChange={e => setIncludeForecasts(e.target.checked)} className="accent-blue-500" />
+            <span>Include forecasts</span>
+          </label>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="text-xs text-gray-300">
+          <thead>
+            <tr>
+              <th></th>
+              {indicators.map(key => (
+                <th key={key} className="px-1 pb-2 font-normal text-gray-400 align-bottom max-w-[6rem]">{getMetadata(key).name}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {indicators.map((rowKey, row) => (
+              <tr key={rowKey}>
+                <th className="pr-2 py-0.5 font-normal text-gray-400 text-right whitespace-nowrap">{getMetadata(rowKey).name}</th>
+                {indicators.map((columnKey, column) => {
+                  const correlation = matrix[row]?.[column];
+                  const isSelected = (columnKey === xKey && rowKey === yKey) || (columnKey === yKey && rowKey === xKey);
+                  return (
+                    <td key={columnKey} className="p-0.5">
+                      <button
+                        onClick={() => row !== column && selectPair(columnKey, rowKey)}
+                        disabled={row === column}
+                        className={`w-14 h-8 rounded text-white focus:outline-none ${isSelected ? 'ring-2 ring-white' : ''} ${row === column ? 'cursor-default' : 'hover:ring-1 hover:ring-gray-300'}`}
+                        style={{ backgroundColor: cellColor(correlation?.r) }}
+                        title={correlation ? `r = ${correlation.r.toFixed(2)} over ${correlation.n} months` : 'Too few months with both values'}
+                      >
+                        {correlation ? correlation.r.toFixed(2) : '—'}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">Select a cell to explore that pair below.</p>
+
+      <div className="flex flex-wrap items-center gap-2 mt-6 mb-2 text-xs text-gray-400">
+        <select value={xKey} onChange={e => selectPair(e.target.value, e.target.value === yKey ? xKey : yKey)} className={selectClassName} aria-label="Leading indicator">
+          {indicators.map(key => (
+            <option key={key} value={key}>{getMetadata(key).name}</option>
+          ))}
+        </select>
+        <span>against</span>
+        <select value={yKey} onChange={e => selectPair(e.target.value === xKey ? yKey : xKey, e.target.value)} className={selectClassName} aria-label="Following indicator">
+          {indicators.map(key => (
+            <option key={key} value={key}>{getMetadata(key).name}</option>
+          ))}
+        </select>
+      </div>
+
+      <h3 className="text-sm font-semibold text-gray-300 mb-1">Lead-lag correlation</h3>
+      <p className="text-xs text-gray-500 mb-2">
+        {strongest
+          ? `Strongest: r = ${strongest.r!.toFixed(2)} ${describeLag(strongest.lag, xMetadata.name, yMetadata.name)}. Select a bar to plot that lag.`
+          : 'Too few months with both values to correlate.'}
+      </p>
+      <ResponsiveContainer width="100%" height={200}>
+        <BarChart data={lags} margin={{ top: 10, right: 30, left: 10, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#4b5563" />
+          <XAxis dataKey="lag" stroke="#d1d5db" tickFormatter={(tick) => (tick > 0 ? `+${tick}` : `${tick}`)} />
+          <YAxis stroke="#d1d5db" domain={[-1, 1]} ticks={[-1, -0.5, 0, 0.5, 1]} />
+          <ReferenceLine y={0} stroke="#9ca3af" />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151' }}
+            labelFormatter={(value: number) => describeLag(value, xMetadata.name, yMetadata.name)}
+            formatter={(value: number) => [value === null ? '—' : value.toFixed(2), 'r']}
+          />
+          <Bar dataKey="r" onClick={(_, index) => setLag(lags[index].lag)} cursor="pointer">
+            {lags.map(entry => (
+              <Cell key={entry.lag} fill={entry.lag === lag ? '#f9fafb' : (entry.r ?? 0) >= 0 ? '#ef4444' : '#3b82f6'} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+
+      <h3 className="text-sm font-semibold text-gray-300 mt-6 mb-1">{`${yMetadata.name} against ${xMetadata.name}${lag === 0 ? '' : ` (${describeLag(lag, xMetadata.name, yMetadata.name)})`}`}</h3>
+      <p className="text-xs text-gray-500 mb-2">
+        {regression
+          ? `Fitted line: y = ${regression.intercept.toFixed(3)} ${regression.slope < 0 ? '−' : '+'} ${Math.abs(regression.slope).toFixed(3)}·x · R² = ${regression.r2.toFixed(2)} · ${regression.n} months`
+          : 'Too few months with both values to fit a line.'}
+      </p>
+      <ResponsiveContainer width="100%" height={300}>
+        <ScatterChart margin={{ top: 10, right: 30, left: 10, bottom: 10 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#4b5563" />
+          <XAxis type="number" dataKey="x" name={xMetadata.name} stroke="#d1d5db" domain={['auto', 'auto']} tickFormatter={(tick) => formatValue(tick, xMetadata.unit, 1)} />
+          <YAxis type="number" dataKey="y" name={yMetadata.name} stroke="#d1d5db" domain={['auto', 'auto']} tickFormatter={(tick) => formatValue(tick, yMetadata.unit, 1)} />
+          <ZAxis range={[30, 30]} />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151' }}
+            cursor={{ strokeDasharray: '3 3' }}
+            formatter={(value: number, name: string) => [formatValue(value, name === xMetadata.name ? xMetadata.unit : yMetadata.unit), name]}
+            labelFormatter={() => ''}
+          />
+          <Scatter data={pairs} fill={yMetadata.color} fillOpacity={0.7} isAnimationActive={false} />
+          {regressionLine.length > 0 && (
+            <Scatter data={regressionLine} line={{ stroke: '#f9fafb', strokeWidth: 1.5, strokeDasharray: '6 4' }} shape={() => <g />} legendType="none" isAnimationActive={false} />
+          )}
+        </ScatterChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default AnalysisView;
@@ -0,0 +1,159 @@
+
+import React, { useState } from 'react';
+import { ANNOTATION_CATEGORIES, Annotation, AnnotationCategory, NewAnnotation } from '../types';
+import { ANNOTATION_CATEGORY_COLORS, ANNOTATION_CATEGORY_LABELS, MAX_ANNOTATION_TITLE_LENGTH, getAnnotationMonth, parseNewAnnotation } from '../lib/annotations';
+import { MonthRange } from '../lib/months';
+
+interface AnnotationPanelProps {
+  annotations: Annotation[];
+  // The categories shown on the chart.
+  categories: AnnotationCategory[];
+  // The months on the chart; only events within them are listed.
+  months: MonthRange;
+  onCategoriesChange: (categories: AnnotationCategory[]) => void;
+  onCreate: (annotation: NewAnnotation) => Promise<void>;
+}
+
+const inputClassName = 'bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const emptyForm = (): NewAnnotation => ({ date: new Date().toISOString().slice(0, 10), title: '', category: 'policy', url: '' });
+
+const AnnotationPanel: React.FC<AnnotationPanelProps> = ({ annotations, categories, months, onCategoriesChange, onCreate }) => {
+  const [form, setForm] = useState<NewAnnotation | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const visible = annotations
+    .filter(annotation => categories.includes(annotation.category))
+    .filter(annotation => getAnnotationMonth(annotation) >= months.startMonth && getAnnotationMonth(annotation) <= months.endMonth)
+    .reverse();
+
+  const toggleCategory = (category: AnnotationCategory) => {
+    onCategoriesChange(categories.includes(category)
+      ? categories.filter(item => item !== category)
+      : ANNOTATION_CATEGORIES.filter(item => item === category || categories.includes(item)));
+  };
+
+  const closeForm = () => {
+    setForm(null);
+    setFormError(null);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    const { annotation, problems } = parseNewAnnotation(form, 'The event');
+    if (!annotation) {
+      setFormError(problems.join(' '));
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onCreate(annotation);
+      closeForm();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'The event could not be saved.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-100">Events</h2>
+        {!form && (
+          <button
+            onClick={() => setForm(emptyForm())}
+            className="px-3 py-1.5 bg-gray-600 text-white rounded-md hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-opacity-50 transition-colors text-sm"
+          >
+            Add event
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {ANNOTATION_CATEGORIES.map(category => {
+          const isShown = categories.includes(category);
+          return (
+            <button
+              key={category}
+              onClick={() => toggleCategory(category)}
+              aria-pressed={isShown}
+              className={`flex items-center gap-1.5 px-2 py-1 rounded-full border text-xs focus:outline-none transition-colors ${isShown ? 'border-gray-500 bg-gray-700 text-gray-200' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+            >
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: isShown ? ANNOTATION_CATEGORY_COLORS[category] : 'transparent', border: `1px solid ${ANNOTATION_CATEGORY_COLORS[category]}` }} />
+              {ANNOTATION_CATEGORY_LABELS[category]}
+            </button>
+          );
+        })}
+      </div>
+
+      {form && (
+        <div className="p-3 mb-4 rounded-md bg-gray-700/30 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <input type="date" value={form.date} onChange={e => setForm({ ...form, date: e.target.value })} className={inputClassName} aria-label="Event date" />
+            <select value={form.category} onChange={e => setForm({ ...form, category: e.target.value as AnnotationCategory })} className={inputClassName} aria-label="Event category">
+              {ANNOTATION_CATEGORIES.map(category => (
+                <option key={category} value={category}>{ANNOTATION_CATEGORY_LABELS[category]}</option>
+              ))}
+            </select>
+          </div>
+          <input
+            type="text"
+            value={form.title}
+            onChange={e => setForm({ ...form, title: e.target.value })}
+            maxLength={MAX_ANNOTATION_TITLE_LENGTH}
+            className={`${inputClassName} w-full`}
+            placeholder="Title, e.g. Monetary Board cuts RRP rate by 25 bp"
+            aria-label="Event title"
+          />
+          <input
+            type="url"
+            value={form.url ?? ''}
+            onChange={e => setForm({ ...form, url: e.target.value })}
+            className={`${inputClassName} w-full`}
+            placeholder="Link (optional)"
+            aria-label="Event link"
+          />
+          {formError && <p className="text-xs text-red-400">{formError}</p>}
+          <div className="flex justify-end gap-2">
+            <button onClick={closeForm} className="px-3 py-1 text-xs text-gray-300 hover:text-white focus:outline-none">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 text-xs disabled:opacity-50"
+            >
+              {isSaving ? 'Saving…' : 'Save event'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {annotations.length === 0 && !form && (
+        <p className="text-sm text-gray-400">Mark context such as Monetary Board decisions, typhoons, oil shocks or data releases on the chart.</p>
+      )}
+      {annotations.length > 0 && visible.length === 0 && (
+        <p className="text-sm text-gray-400">No events of the chosen categories fall within the chart's months.</p>
+      )}
+      {visible.length > 0 && (
+        <ul className="space-y-1 text-xs text-gray-300 max-h-48 overflow-y-auto">
+          {visible.map(annotation => (
+            <li key={annotation.id} className="flex items-baseline gap-2">
+              <span className="w-2 h-2 flex-shrink-0 rounded-full" style={{ backgroundColor: ANNOTATION_CATEGORY_COLORS[annotation.category] }} />
+              <span className="text-gray-400 flex-shrink-0">{annotation.date}</span>
+              {annotation.url ? (
+                <a href={annotation.url} target="_blank" rel="noopener noreferrer" className="hover:text-blue-300 underline">{annotation.title}</a>
+              ) : (
+                <span>{annotation.title}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AnnotationPanel;
@@ -0,0 +1,55 @@
+
+import React, { useState } from 'react';
+import { Anomaly, AnomalyCode } from '../types';
+
+interface AnomalyWarningsProps {
+  anomalies: Anomaly[];
+}
+
+const CODE_LABELS: Record<AnomalyCode, string> = {
+  'out-of-bounds': 'Values outside the plausible range',
+  'jump': 'Unusually large month-over-month moves',
+  'inconsistent': 'Values inconsistent with a related indicator',
+};
+
+const AnomalyWarnings: React.FC<AnomalyWarningsProps> = ({ anomalies }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (anomalies.length === 0) return null;
+
+  // An inconsistency is reported once per indicator involved; list its message once.
+  const unique = Array.from(new Map(anomalies.map(anomaly => [`${anomaly.code}|${anomaly.month}|${anomaly.message}`, anomaly])).values());
+  const grouped = unique.reduce((acc, anomaly) => {
+    (acc[anomaly.code] ||= []).push(anomaly);
+    return acc;
+  }, {} as Partial<Record<AnomalyCode, Anomaly[]>>);
+
+  return (
+    <div className="mt-4 p-3 rounded-lg bg-red-900/20 border border-red-500/50 text-sm">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex justify-between items-center text-red-300 font-semibold focus:outline-none"
+        aria-expanded={isExpanded}
+      >
+        <span>{`${unique.length} implausible value${unique.length === 1 ? '' : 's'} flagged on the chart`}</span>
+        <span className="text-xs text-red-400">{isExpanded ? 'Hide details' : 'Show details'}</span>
+      </button>
+      <ul className="mt-2 space-y-1">
+        {(Object.keys(grouped) as AnomalyCode[]).map(code => (
+          <li key={code}>
+            <p className="text-red-200">{`${CODE_LABELS[code]}: ${grouped[code]!.length}`}</p>
+            {isExpanded && (
+              <ul className="ml-4 mt-1 space-y-0.5 text-xs text-gray-400 list-disc list-inside">
+                {grouped[code]!.map((anomaly, index) => (
+                  <li key={index}>{`${anomaly.month}: ${anomaly.message}`}</li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default AnomalyWarnings;
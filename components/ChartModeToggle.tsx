@@ -0,0 +1,34 @@
+
+import React from 'react';
+
+export type ChartMode = 'combined' | 'panels';
+
+interface ChartModeToggleProps {
+  mode: ChartMode;
+  onChange: (mode: ChartMode) => void;
+}
+
+const MODES: { key: ChartMode; label: string }[] = [
+  { key: 'combined', label: 'Combined' },
+  { key: 'panels', label: 'Panels by unit' },
+];
+
+const ChartModeToggle: React.FC<ChartModeToggleProps> = ({ mode, onChange }) => {
+  return (
+    <div className="inline-flex rounded-md border border-gray-600 overflow-hidden text-xs" role="group" aria-label="Chart layout">
+      {MODES.map(({ key, label }) => (
+        <button
+          key={key}
+          type="button"
+          onClick={() => onChange(key)}
+          aria-pressed={mode === key}
+          className={`px-3 py-1 transition-colors focus:outline-none ${mode === key ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ChartModeToggle;
@@ -0,0 +1,60 @@
+
+import React, { useState } from 'react';
+import { ValidationWarning, ValidationWarningCode } from '../types';
+
+interface DataWarningsProps {
+  warnings: ValidationWarning[];
+}
+
+const CODE_LABELS: Record<ValidationWarningCode, string> = {
+  'invalid-row': 'Malformed rows discarded',
+  'invalid-month': 'Rows with unrecognised months discarded',
+  'out-of-range-month': 'Months outside the requested range discarded',
+  'duplicate-month': 'Duplicate months discarded',
+  'unknown-key': 'Unexpected fields ignored',
+  'missing-value': 'Missing values',
+  'coerced-value': 'Values converted to numbers',
+  'invalid-value': 'Non-numeric values discarded',
+  'invalid-status': 'Unrecognised data point statuses ignored',
+};
+
+const DataWarnings: React.FC<DataWarningsProps> = ({ warnings }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (warnings.length === 0) return null;
+
+  // Group warnings by code so a noisy response collapses to a short summary.
+  const grouped = warnings.reduce((acc, warning) => {
+    (acc[warning.code] ||= []).push(warning);
+    return acc;
+  }, {} as Partial<Record<ValidationWarningCode, ValidationWarning[]>>);
+
+  return (
+    <div className="mt-4 p-3 rounded-lg bg-yellow-900/20 border border-yellow-600/50 text-sm">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex justify-between items-center text-yellow-300 font-semibold focus:outline-none"
+        aria-expanded={isExpanded}
+      >
+        <span>{`${warnings.length} data validation warning${warnings.length === 1 ? '' : 's'}`}</span>
+        <span className="text-xs text-yellow-400">{isExpanded ? 'Hide details' : 'Show details'}</span>
+      </button>
+      <ul className="mt-2 space-y-1">
+        {(Object.keys(grouped) as ValidationWarningCode[]).map(code => (
+          <li key={code}>
+            <p className="text-yellow-200">{`${CODE_LABELS[code]}: ${grouped[code]!.length}`}</p>
+            {isExpanded && (
+              <ul className="ml-4 mt-1 space-y-0.5 text-xs text-gray-400 list-disc list-inside">
+                {grouped[code]!.map((warning, index) => (
+                  <li key={index}>{warning.message}</li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DataWarnings;
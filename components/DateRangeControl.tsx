@@ -0,0 +1,77 @@
+
+import React, { useEffect, useState } from 'react';
+import { MAX_RANGE_MONTHS, MonthRange, countMonths, getDefaultMonthRange, isValidMonth } from '../lib/months';
+
+interface DateRangeControlProps {
+  range: MonthRange;
+  onApply: (range: MonthRange) => void;
+  isDisabled: boolean;
+}
+
+const getRangeError = ({ startMonth, endMonth }: MonthRange): string | null => {
+  if (!isValidMonth(startMonth) || !isValidMonth(endMonth)) return 'Choose both a start and an end month.';
+  if (startMonth > endMonth) return 'The start month must not be after the end month.';
+  if (countMonths(startMonth, endMonth) > MAX_RANGE_MONTHS) return `The range may not exceed ${MAX_RANGE_MONTHS} months.`;
+  return null;
+};
+
+const DateRangeControl: React.FC<DateRangeControlProps> = ({ range, onApply, isDisabled }) => {
+  // Edits are kept locally until applied, so each keystroke doesn't trigger a fetch.
+  const [draft, setDraft] = useState<MonthRange>(range);
+
+  useEffect(() => {
+    setDraft(range);
+  }, [range]);
+
+  const error = getRangeError(draft);
+  const isUnchanged = draft.startMonth === range.startMonth && draft.endMonth === range.endMonth;
+
+  const inputClassName = 'bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+
+  return (
+    <form
+      className="flex flex-wrap items-center gap-2 mb-4 text-sm"
+      onSubmit={e => {
+        e.preventDefault();
+        if (!error) onApply(draft);
+      }}
+    >
+      <label htmlFor="range-start" className="text-gray-400">From</label>
+      <input
+        id="range-start"
+        type="month"
+        value={draft.startMonth}
+        onChange={e => setDraft({ ...draft, startMonth: e.target.value })}
+        disabled={isDisabled}
+        className={inputClassName}
+      />
+      <label htmlFor="range-end" className="text-gray-400">to</label>
+      <input
+        id="range-end"
+        type="month"
+        value={draft.endMonth}
+        onChange={e => setDraft({ ...draft, endMonth: e.target.value })}
+        disabled={isDisabled}
+        className={inputClassName}
+      />
+      <button
+        type="submit"
+        disabled={isDisabled || !!error || isUnchanged}
+        className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+      >
+        Apply
+      </button>
+      <button
+        type="button"
+        onClick={() => onApply(getDefaultMonthRange())}
+        disabled={isDisabled}
+        className="text-gray-400 hover:text-gray-200 underline disabled:opacity-50 focus:outline-none"
+      >
+        Reset
+      </button>
+      {error && <span className="text-xs text-red-400">{error}</span>}
+    </form>
+  );
+};
+
+export default DateRangeControl;
@@ -1,32 +1,152 @@
 
-import React from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine, Label } from 'recharts';
-import { EconomicIndicator, INDICATORS_MAP, IndicatorKey } from '../types';
+import React, { useRef, useState } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine, ReferenceArea, ReferenceDot, Label, Brush } from 'recharts';
+import { ANNOTATION_CATEGORIES, AlertResult, Annotation, Anomaly, DataPointStatus, EconomicIndicator, IndicatorKey, IndicatorMetadata, IndicatorProjection, UserSeries } from '../types';
+import { formatDelta, formatValue } from '../lib/format';
+import { addProjections, addScenario, addUncertaintyBands, addUserSeries, bandKey, forecastKey, isBandKey, isProjectionKey, isScenarioKey, isUserSeriesKey, projectionBandKey, projectionKey, scenarioKey, splitByStatus, toIndicatorKey, userSeriesKey } from '../lib/chartData';
+import { formatQuarter } from '../lib/frequency';
+import { getIndicator } from '../lib/indicators';
+import { getProjectionMethodLabel } from '../lib/projections';
+import { ANNOTATION_CATEGORY_COLORS, ANNOTATION_CATEGORY_LABELS, groupAnnotationsByMonth } from '../lib/annotations';
 
 interface EconomicChartProps {
   data: EconomicIndicator[];
   displayedIndicators: IndicatorKey[];
+  height?: number;
+  // Charts sharing a syncId share their tooltip, crosshair and brush.
+  syncId?: string;
+  showBrush?: boolean;
+  showLegend?: boolean;
+  // Overrides the name and unit of indicators, e.g. when a transformation is applied.
+  metadata?: Partial<Record<IndicatorKey, IndicatorMetadata>>;
+  // Series imported by the user, overlaid with a dotted line and square markers.
+  userSeries?: UserSeries[];
+  // Evaluated alert rules; breaches of displayed indicators are shaded.
+  alertResults?: AlertResult[];
+  // Values that failed the plausibility checks, ringed in red.
+  anomalies?: Anomaly[];
+  // Statistical projections, drawn dash-dotted with their prediction intervals shaded.
+  projections?: IndicatorProjection[];
+  // A what-if scenario's rows, prepared like `data`, drawn where they depart from the baseline.
+  scenario?: { name: string; data: EconomicIndicator[] };
+  // Dated events, marked with a vertical line and a flag that opens a hover card.
+  annotations?: Annotation[];
 }
 
-const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
+// How long a hover card stays open after the pointer leaves, so it can be reached to follow a link.
+const HOVER_CARD_CLOSE_DELAY_MS = 200;
+
+const STATUS_LABELS: Record<DataPointStatus, string> = {
+  actual: 'Actual',
+  estimate: 'Estimate',
+  forecast: 'Forecast',
+};
+
+const getHostname = (uri: string): string => {
+  try {
+    return new URL(uri).hostname.replace(/^www\./, '');
+  } catch (e) {
+    return uri;
+  }
+};
+
+// Square markers set imported series apart from the round markers of fetched indicators.
+const SquareDot: React.FC<any> = ({ cx, cy, stroke }) => {
+  if (cx === undefined || cy === undefined || cx === null || cy === null) return null;
+  return <rect x={cx - 3} y={cy - 3} width={6} height={6} fill={stroke} stroke="#1f2937" strokeWidth={1} />;
+};
+
+// The flag at the top of an annotation line. Recharts passes the line's position as `viewBox`.
+const AnnotationFlag: React.FC<any> = ({ viewBox, color, count, onEnter, onLeave }) => {
+  if (!viewBox) return null;
+  const { x, y } = viewBox;
+  return (
+    <g onMouseEnter={() => onEnter(x, y)} onMouseLeave={onLeave} style={{ cursor: 'pointer' }}>
+      <circle cx={x} cy={y} r={7} fill={color} stroke="#1f2937" strokeWidth={2} />
+      {count > 1 && (
+        <text x={x} y={y + 3} textAnchor="middle" fontSize={9} fontWeight="bold" fill="#111827">{count}</text>
+      )}
+    </g>
+  );
+};
+
+const CustomTooltip: React.FC<any> = ({ active, payload, label, metadata: metadataOverrides, userSeries, anomalies, projections, scenarioName }) => {
   if (active && payload && payload.length) {
+    // Where the observed and forecast segments meet, both report the same point; show it once.
+    const seen = new Set<IndicatorKey>();
     return (
       <div className="p-4 bg-gray-800 bg-opacity-90 border border-gray-700 rounded-lg shadow-lg">
         <p className="label text-lg font-bold text-white">{`${label}`}</p>
         {payload.map((entry: any) => {
-           const originalKey = entry.dataKey as IndicatorKey;
-           const metadata = INDICATORS_MAP[originalKey];
-           if (!metadata || entry.value === null || entry.value === undefined) return null;
+           if (isBandKey(entry.dataKey)) return null;
+           if (isScenarioKey(entry.dataKey)) {
+             // Where the scenario joins the baseline, its value is the baseline's; show it once.
+             const key = toIndicatorKey(entry.dataKey);
+             const baselineValue = entry.payload?.[key] ?? entry.payload?.[forecastKey(key)];
+             if (entry.value === null || entry.value === undefined || entry.value === baselineValue) return null;
+             const metadata = metadataOverrides?.[key] ?? getIndicator(key);
+             return (
+               <p key={entry.dataKey} style={{ color: metadata.color }} className="intro">
+                 {`${metadata.name} (${scenarioName}): ${formatValue(entry.value, metadata.unit)}`}
+                 {typeof baselineValue === 'number' && (
+                   <span className="ml-2 text-xs text-gray-400">{`(${formatDelta(entry.value - baselineValue, metadata.unit)} vs baseline)`}</span>
+                 )}
+               </p>
+             );
+           }
+           if (isProjectionKey(entry.dataKey)) {
+             // The month the projection starts from is the released value, shown on its own line.
+             const projection = (projections as IndicatorProjection[] | undefined)?.find(item => projectionKey(item.indicator) === entry.dataKey);
+             const point = projection?.points.find(item => item.month === label);
+             if (!projection || !point) return null;
+             const metadata = metadataOverrides?.[projection.indicator] ?? getIndicator(projection.indicator);
+             return (
+               <p key={entry.dataKey} style={{ color: metadata.color }} className="intro">
+                 {`${metadata.name} (projection): ${formatValue(point.value, metadata.unit)}`}
+                 <span className="block text-xs text-gray-400">
+                   {`${projection.level}% interval ${formatValue(point.lower, metadata.unit)}–${formatValue(point.upper, metadata.unit)} · ${getProjectionMethodLabel(projection.method)}`}
+                 </span>
+               </p>
+             );
+           }
+           if (isUserSeriesKey(entry.dataKey)) {
+             const series = (userSeries as UserSeries[] | undefined)?.find(item => userSeriesKey(item.id) === entry.dataKey);
+             if (!series || entry.value === null || entry.value === undefined) return null;
+             return (
+               <p key={entry.dataKey} style={{ color: series.color }} className="intro">
+                 {`${series.name}: ${formatValue(entry.value, series.unit)}`}
+                 <span className="ml-2 text-xs text-gray-400">{`(User data · ${series.fileName})`}</span>
+               </p>
+             );
+           }
+
+           const originalKey = toIndicatorKey(entry.dataKey);
+           const metadata = metadataOverrides?.[originalKey] ?? getIndicator(originalKey);
+           if (!metadata || entry.value === null || entry.value === undefined || seen.has(originalKey)) return null;
+           seen.add(originalKey);
            
-           const value = entry.value;
-           const isPrefix = ['$', '₱'].includes(metadata.unit);
-           const formattedValue = isPrefix
-             ? `${metadata.unit}${value.toFixed(2)}`
-             : `${value.toFixed(2)}${metadata.unit}`;
+           const formattedValue = formatValue(entry.value, metadata.unit);
+           const pointMeta = entry.payload?.meta?.[originalKey];
 
            return (
             <p key={entry.dataKey} style={{ color: metadata.color }} className="intro">
               {`${metadata.name}: ${formattedValue}`}
+              {metadata.frequency === 'quarterly' && (
+                <span className="ml-2 text-xs text-gray-400">{formatQuarter(label)}</span>
+              )}
+              {pointMeta && (pointMeta.status || pointMeta.sourceUri) && (
+                <span className="ml-2 text-xs text-gray-400">
+                  {`(${[pointMeta.status && STATUS_LABELS[pointMeta.status as DataPointStatus], pointMeta.sourceUri && getHostname(pointMeta.sourceUri)].filter(Boolean).join(' · ')})`}
+                </span>
+              )}
+              {(anomalies as Anomaly[] | undefined)?.filter(anomaly => anomaly.month === label && anomaly.indicator === originalKey).map((anomaly, index) => (
+                <span key={index} className="block text-xs text-red-300">{`⚠ ${anomaly.message}`}</span>
+              ))}
+              {pointMeta?.ensemble && (
+                <span className="block text-xs text-gray-400">
+                  {`Median of ${pointMeta.ensemble.count}/${pointMeta.ensemble.runs} runs · range ${formatValue(pointMeta.ensemble.min, metadata.unit)}–${formatValue(pointMeta.ensemble.max, metadata.unit)} · spread ${formatValue(pointMeta.ensemble.spread, metadata.unit)} · ${Math.round(pointMeta.ensemble.confidence * 100)}% agree`}
+                </span>
+              )}
             </p>
            );
         })}
@@ -37,103 +157,392 @@ const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
   return null;
 };
 
-const EconomicChart: React.FC<EconomicChartProps> = ({ data, displayedIndicators }) => {
+const EconomicChart: React.FC<EconomicChartProps> = ({
+  data,
+  displayedIndicators,
+  height = 430,
+  syncId,
+  showBrush = true,
+  showLegend = true,
+  metadata,
+  userSeries = [],
+  alertResults = [],
+  anomalies = [],
+  projections = [],
+  scenario,
+  annotations = [],
+}) => {
+  const [hoveredAnnotations, setHoveredAnnotations] = useState<{ month: string; x: number; y: number } | null>(null);
+  const closeTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const keepHoverCard = () => {
+    if (closeTimer.current) clearTimeout(closeTimer.current);
+    closeTimer.current = null;
+  };
+  const closeHoverCard = () => {
+    keepHoverCard();
+    closeTimer.current = setTimeout(() => setHoveredAnnotations(null), HOVER_CARD_CLOSE_DELAY_MS);
+  };
+
+  const getMetadata = (key: IndicatorKey): IndicatorMetadata => metadata?.[key] ?? getIndicator(key);
+  // Quarterly values span their whole quarter and policy rates hold until the next decision,
+  // so both are drawn as steps rather than smoothed curves.
+  const getLineType = (key: IndicatorKey) => (getMetadata(key).frequency === 'monthly' ? 'monotone' : 'stepAfter');
+
   // --- Dual Y-Axis Logic ---
-  const units = [...new Set(displayedIndicators.map(key => INDICATORS_MAP[key].unit))];
+  // The first two units get visible left and right axes. Any further units are scaled on their own
+  // hidden axes rather than being plotted against an axis with the wrong unit.
+  const units = Array.from(new Set([
+    ...displayedIndicators.map(key => getMetadata(key).unit),
+    ...userSeries.map(series => series.unit),
+  ]));
   const yAxis1Unit = units[0];
   const yAxis2Unit = units.length > 1 ? units[1] : null;
+  const extraUnits = units.slice(2);
 
   const getAxisId = (unit: string) => {
     if (unit === yAxis2Unit) return 'right';
+    if (extraUnits.includes(unit)) return `unit-${extraUnits.indexOf(unit)}`;
     return 'left';
   };
+
+  // --- Actuals vs Forecasts ---
+  const { rows: statusRows, forecastStartMonth } = splitByStatus(data, displayedIndicators);
+  const rows = addUserSeries(addProjections(statusRows, projections), userSeries);
+  const bandedIndicators = addUncertaintyBands(rows, displayedIndicators);
+  const scenarioIndicators = scenario ? addScenario(rows, data, scenario.data, displayedIndicators) : [];
+  const lastMonth = data[data.length - 1]?.month;
+  const chartMonths = new Set(rows.map(row => row.month));
+  const annotationsByMonth = Array.from(groupAnnotationsByMonth(annotations, ANNOTATION_CATEGORIES))
+    .filter(([month]) => chartMonths.has(month));
+  const hoverCardAnnotations = hoveredAnnotations ? annotationsByMonth.find(([month]) => month === hoveredAnnotations.month)?.[1] ?? [] : [];
   
   return (
-    <ResponsiveContainer width="100%" height={400}>
-      <LineChart
-        data={data}
-        margin={{
-          top: 20,
-          right: 30,
-          left: 10,
-          bottom: 0,
-        }}
-      >
-        <CartesianGrid strokeDasharray="3 3" stroke="#4b5563" />
-        <XAxis dataKey="month" stroke="#d1d5db" />
-
-        <YAxis 
-          yAxisId="left" 
-          stroke="#d1d5db" 
-          unit={yAxis1Unit} 
-          domain={['auto', 'auto']}
-          tickFormatter={(tick) => `${tick}${yAxis1Unit}`}
-        />
-        {yAxis2Unit && (
+    <div className="relative">
+      <ResponsiveContainer width="100%" height={height}>
+        <ComposedChart
+          data={rows}
+          syncId={syncId}
+          margin={{
+            top: 20,
+            right: 30,
+            left: 10,
+            bottom: 0,
+          }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke="#4b5563" />
+          <XAxis dataKey="month" stroke="#d1d5db" />
+
           <YAxis 
-            yAxisId="right" 
-            orientation="right" 
+            yAxisId="left" 
             stroke="#d1d5db" 
-            unit={yAxis2Unit} 
+            unit={yAxis1Unit} 
             domain={['auto', 'auto']}
-            tickFormatter={(tick) => `${tick}${yAxis2Unit}`}
+            tickFormatter={(tick) => `${tick}${yAxis1Unit}`}
           />
-        )}
+          {yAxis2Unit && (
+            <YAxis 
+              yAxisId="right" 
+              orientation="right" 
+              stroke="#d1d5db" 
+              unit={yAxis2Unit} 
+              domain={['auto', 'auto']}
+              tickFormatter={(tick) => `${tick}${yAxis2Unit}`}
+            />
+          )}
+          {extraUnits.map(unit => (
+            <YAxis key={unit} yAxisId={getAxisId(unit)} hide domain={['auto', 'auto']} />
+          ))}
         
-        <Tooltip content={<CustomTooltip />} />
-        <Legend wrapperStyle={{ color: '#d1d5db' }} />
-
-        {/* --- ADDED REFERENCE LINES --- */}
-        {displayedIndicators.map(key => {
-            const indicator = INDICATORS_MAP[key];
-            if (indicator.threshold === undefined) {
-                return null;
-            }
-            const yAxisId = getAxisId(indicator.unit);
-            const labelValue = `Outlook Threshold: ${indicator.threshold}${indicator.unit}`;
-
-            return (
-                <ReferenceLine 
-                    key={`ref-${key}`}
-                    y={indicator.threshold}
+          <Tooltip content={<CustomTooltip metadata={metadata} userSeries={userSeries} anomalies={anomalies} projections={projections} scenarioName={scenario?.name} />} />
+          {showLegend && <Legend wrapperStyle={{ color: '#d1d5db' }} />}
+
+          {/* Shades the forecast horizon. */}
+          {forecastStartMonth && lastMonth && (
+            <ReferenceArea
+              x1={forecastStartMonth}
+              x2={lastMonth}
+              yAxisId="left"
+              fill="#9ca3af"
+              fillOpacity={0.08}
+              ifOverflow="visible"
+            >
+              <Label value="Forecast" position="insideTopRight" fill="#9ca3af" fontSize="12" />
+            </ReferenceArea>
+          )}
+
+          {/* Marks alert breaches: a shaded span for a run of months, a line for a single month. */}
+          {alertResults.filter(result => displayedIndicators.includes(result.rule.indicator)).flatMap(result => {
+              const yAxisId = getAxisId(getMetadata(result.rule.indicator).unit);
+              return result.breaches.map(breach => (
+                breach.startMonth === breach.endMonth ? (
+                  <ReferenceLine
+                      key={`alert-${result.rule.id}-${breach.startMonth}`}
+                      x={breach.startMonth}
+                      yAxisId={yAxisId}
+                      stroke={breach.includesForecast ? '#f59e0b' : '#ef4444'}
+                      strokeOpacity={0.5}
+                      strokeWidth={3}
+                  />
+                ) : (
+                  <ReferenceArea
+                      key={`alert-${result.rule.id}-${breach.startMonth}`}
+                      x1={breach.startMonth}
+                      x2={breach.endMonth}
+                      yAxisId={yAxisId}
+                      fill={breach.includesForecast ? '#f59e0b' : '#ef4444'}
+                      fillOpacity={0.08}
+                      ifOverflow="visible"
+                  />
+                )
+              ));
+          })}
+
+          {/* --- ADDED REFERENCE LINES --- */}
+          {displayedIndicators.map(key => {
+              const indicator = getMetadata(key);
+              if (indicator.threshold === undefined) {
+                  return null;
+              }
+              const yAxisId = getAxisId(indicator.unit);
+              const labelValue = `Outlook Threshold: ${indicator.threshold}${indicator.unit}`;
+
+              return (
+                  <ReferenceLine 
+                      key={`ref-${key}`}
+                      y={indicator.threshold}
+                      yAxisId={yAxisId}
+                      stroke={indicator.color}
+                      strokeDasharray="5 5"
+                      strokeWidth={1.5}
+                      ifOverflow="extendDomain"
+                  >
+                      <Label
+                          value={labelValue}
+                          position="right"
+                          fill="#d1d5db"
+                          fontSize="12"
+                          style={{ transform: 'translateY(-10px)' }}
+                      />
+                  </ReferenceLine>
+              );
+          })}
+
+          {/* Uncertainty bands span the values returned by independent extractions. */}
+          {bandedIndicators.map(key => {
+              const indicator = getMetadata(key);
+              return (
+                <Area
+                    key={bandKey(key)}
+                    type={getLineType(key)}
+                    dataKey={bandKey(key)}
+                    name={`${indicator.name} (range)`}
+                    stroke="none"
+                    fill={indicator.color}
+                    fillOpacity={0.15}
+                    yAxisId={getAxisId(indicator.unit)}
+                    legendType="none"
+                    connectNulls
+                    activeDot={false}
+                    isAnimationActive={false}
+                />
+              );
+          })}
+
+          {displayedIndicators.map(key => {
+              const indicator = getMetadata(key);
+              const yAxisId = getAxisId(indicator.unit);
+            
+              return (
+                <Line 
+                    key={key}
+                    type={getLineType(key)}
+                    dataKey={key} 
+                    name={indicator.name} 
+                    stroke={indicator.color}
+                    strokeWidth={2}
                     yAxisId={yAxisId}
+                    connectNulls
+                    dot={{ r: 3, fill: indicator.color, stroke: '#1f2937', strokeWidth: 2 }}
+                    activeDot={{ r: 8, strokeWidth: 2, fill: indicator.color, stroke: '#f9fafb' }}
+                />
+              );
+          })}
+
+          {/* Forecast segments are dashed and left out of the legend. */}
+          {displayedIndicators.map(key => {
+              const indicator = getMetadata(key);
+              const yAxisId = getAxisId(indicator.unit);
+
+              return (
+                <Line
+                    key={forecastKey(key)}
+                    type={getLineType(key)}
+                    dataKey={forecastKey(key)}
+                    name={`${indicator.name} (Forecast)`}
+                    stroke={indicator.color}
+                    strokeWidth={2}
+                    strokeDasharray="6 4"
+                    yAxisId={yAxisId}
+                    legendType="none"
+                    connectNulls
+                    dot={{ r: 3, fill: '#1f2937', stroke: indicator.color, strokeWidth: 2 }}
+                    activeDot={{ r: 8, strokeWidth: 2, fill: indicator.color, stroke: '#f9fafb' }}
+                />
+              );
+          })}
+
+          {/* Scenario paths are drawn thick and long-dashed over the baseline they depart from. */}
+          {scenarioIndicators.map(key => {
+              const indicator = getMetadata(key);
+              return (
+                <Line
+                    key={scenarioKey(key)}
+                    type={getLineType(key)}
+                    dataKey={scenarioKey(key)}
+                    name={`${indicator.name} (${scenario!.name})`}
+                    stroke={indicator.color}
+                    strokeWidth={3}
+                    strokeDasharray="12 4"
+                    yAxisId={getAxisId(indicator.unit)}
+                    dot={false}
+                    activeDot={{ r: 6, strokeWidth: 2, fill: indicator.color, stroke: '#f9fafb' }}
+                />
+              );
+          })}
+
+          {/* Statistical projections are dash-dotted, over the shaded prediction interval. */}
+          {projections.filter(projection => displayedIndicators.includes(projection.indicator)).flatMap(projection => {
+              const indicator = getMetadata(projection.indicator);
+              const yAxisId = getAxisId(indicator.unit);
+              return [
+                <Area
+                    key={projectionBandKey(projection.indicator)}
+                    type={getLineType(projection.indicator)}
+                    dataKey={projectionBandKey(projection.indicator)}
+                    name={`${indicator.name} (projection interval)`}
+                    stroke="none"
+                    fill={indicator.color}
+                    fillOpacity={0.08}
+                    yAxisId={yAxisId}
+                    legendType="none"
+                    activeDot={false}
+                    isAnimationActive={false}
+                />,
+                <Line
+                    key={projectionKey(projection.indicator)}
+                    type={getLineType(projection.indicator)}
+                    dataKey={projectionKey(projection.indicator)}
+                    name={`${indicator.name} (statistical projection)`}
                     stroke={indicator.color}
-                    strokeDasharray="5 5"
                     strokeWidth={1.5}
-                    ifOverflow="extendDomain"
+                    strokeDasharray="8 3 2 3"
+                    strokeOpacity={0.8}
+                    yAxisId={yAxisId}
+                    legendType="plainline"
+                    dot={false}
+                    activeDot={{ r: 5, strokeWidth: 2, fill: '#1f2937', stroke: indicator.color }}
+                />,
+              ];
+          })}
+
+          {userSeries.map(series => (
+            <Line
+                key={userSeriesKey(series.id)}
+                type="monotone"
+                dataKey={userSeriesKey(series.id)}
+                name={`${series.name} (user data)`}
+                stroke={series.color}
+                strokeWidth={2}
+                strokeDasharray="2 3"
+                yAxisId={getAxisId(series.unit)}
+                legendType="square"
+                connectNulls
+                dot={<SquareDot />}
+                activeDot={{ r: 7, strokeWidth: 2, fill: series.color, stroke: '#f9fafb' }}
+            />
+          ))}
+
+          {/* Rings implausible values where they are drawn, whichever segment holds them. */}
+          {anomalies.filter(anomaly => displayedIndicators.includes(anomaly.indicator)).map(anomaly => {
+              const row = rows.find(candidate => candidate.month === anomaly.month);
+              const y = row?.[anomaly.indicator] ?? row?.[forecastKey(anomaly.indicator)];
+              if (typeof y !== 'number') return null;
+              return (
+                <ReferenceDot
+                    key={`anomaly-${anomaly.code}-${anomaly.indicator}-${anomaly.month}`}
+                    x={anomaly.month}
+                    y={y}
+                    yAxisId={getAxisId(getMetadata(anomaly.indicator).unit)}
+                    r={7}
+                    fill="none"
+                    stroke="#ef4444"
+                    strokeWidth={2}
+                />
+              );
+          })}
+
+          {/* Marks annotated events; months with several events share one line. */}
+          {annotationsByMonth.map(([month, events]) => {
+              const categories = new Set(events.map(event => event.category));
+              const color = categories.size === 1 ? ANNOTATION_CATEGORY_COLORS[events[0].category] : '#e5e7eb';
+              return (
+                <ReferenceLine
+                    key={`annotation-${month}`}
+                    x={month}
+                    yAxisId="left"
+                    stroke={color}
+                    strokeOpacity={0.7}
+                    strokeDasharray="1 3"
                 >
-                    <Label
-                        value={labelValue}
-                        position="right"
-                        fill="#d1d5db"
-                        fontSize="12"
-                        style={{ transform: 'translateY(-10px)' }}
-                    />
+                  <Label
+                      content={
+                        <AnnotationFlag
+                            color={color}
+                            count={events.length}
+                            onEnter={(x: number, y: number) => {
+                              keepHoverCard();
+                              setHoveredAnnotations({ month, x, y });
+                            }}
+                            onLeave={closeHoverCard}
+                        />
+                      }
+                  />
                 </ReferenceLine>
-            );
-        })}
+              );
+          })}
 
-        {displayedIndicators.map(key => {
-            const indicator = INDICATORS_MAP[key];
-            const yAxisId = getAxisId(indicator.unit);
-            
-            return (
-              <Line 
-                  key={key}
-                  type="monotone" 
-                  dataKey={key} 
-                  name={indicator.name} 
-                  stroke={indicator.color}
-                  strokeWidth={2}
-                  yAxisId={yAxisId}
-                  connectNulls
-                  dot={{ r: 3, fill: indicator.color, stroke: '#1f2937', strokeWidth: 2 }}
-                  activeDot={{ r: 8, strokeWidth: 2, fill: indicator.color, stroke: '#f9fafb' }}
-              />
-            );
-        })}
-      </LineChart>
-    </ResponsiveContainer>
+          {/* Zooms the x-axis within the loaded date range; keyed so it resets when the data changes. */}
+          {showBrush && (
+            <Brush key={`${rows[0]?.month}-${rows.length}`} dataKey="month" height={24} stroke="#3b82f6" fill="#1f2937" travellerWidth={8} />
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+      {hoveredAnnotations && hoverCardAnnotations.length > 0 && (
+        <div
+          className="absolute z-10 w-64 -translate-x-1/2 p-3 bg-gray-800 bg-opacity-95 border border-gray-700 rounded-lg shadow-lg text-sm"
+          style={{ left: hoveredAnnotations.x, top: hoveredAnnotations.y + 12 }}
+          onMouseEnter={keepHoverCard}
+          onMouseLeave={closeHoverCard}
+        >
+          <ul className="space-y-2">
+            {hoverCardAnnotations.map(annotation => (
+              <li key={annotation.id}>
+                <p className="text-xs" style={{ color: ANNOTATION_CATEGORY_COLORS[annotation.category] }}>
+                  {`${annotation.date} · ${ANNOTATION_CATEGORY_LABELS[annotation.category]}`}
+                </p>
+                {annotation.url ? (
+                  <a href={annotation.url} target="_blank" rel="noopener noreferrer" className="font-semibold text-gray-100 hover:text-blue-300 underline">
+                    {annotation.title}
+                  </a>
+                ) : (
+                  <p className="font-semibold text-gray-100">{annotation.title}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
   );
 };
 
@@ -0,0 +1,51 @@
+
+import React from 'react';
+import { IndicatorFetchStatus, IndicatorKey } from '../types';
+import { getIndicator } from '../lib/indicators';
+
+interface FailedIndicatorsProps {
+  status: IndicatorFetchStatus[];
+  retrying: IndicatorKey[];
+  onRetry: (indicator: IndicatorKey) => void;
+}
+
+// Lists the indicators that failed or came back empty, each with its own retry button, while the
+// rest of the series stay on the chart.
+const FailedIndicators: React.FC<FailedIndicatorsProps> = ({ status, retrying, onRetry }) => {
+  const problems = status.filter(entry => entry.state !== 'ok');
+  if (problems.length === 0) return null;
+
+  return (
+    <div className="mt-4 p-3 rounded-lg bg-red-900/20 border border-red-500/50 text-sm">
+      <p className="text-red-300 font-semibold mb-2">
+        {`${problems.length} indicator${problems.length === 1 ? '' : 's'} could not be loaded`}
+      </p>
+      <ul className="space-y-2">
+        {problems.map(entry => {
+          const isRetrying = retrying.includes(entry.indicator);
+          return (
+            <li key={entry.indicator} className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-gray-200">{getIndicator(entry.indicator).name}</p>
+                <p className="text-xs text-gray-400 break-words">
+                  {entry.state === 'empty'
+                    ? 'No values were found for the selected months.'
+                    : `${entry.error ?? 'The request failed.'} (${entry.attempts} attempt${entry.attempts === 1 ? '' : 's'})`}
+                </p>
+              </div>
+              <button
+                onClick={() => onRetry(entry.indicator)}
+                disabled={isRetrying}
+                className="flex-shrink-0 px-3 py-1 bg-gray-600 text-white rounded-md hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-gray-500 text-xs"
+              >
+                {isRetrying ? 'Retrying…' : 'Retry'}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default FailedIndicators;
@@ -0,0 +1,214 @@
+
+import React, { useRef, useState } from 'react';
+import { IndicatorKey, UserSeries } from '../types';
+import { ParsedImport, USER_SERIES_COLORS, buildUserSeries, parseImportFile, suggestIndicator } from '../lib/userData';
+import { getIndicator, getIndicatorKeys } from '../lib/indicators';
+
+interface ImportPanelProps {
+  userSeries: UserSeries[];
+  onAdd: (series: UserSeries[]) => void;
+  onRemove: (id: string) => void;
+}
+
+interface ColumnMapping {
+  include: boolean;
+  // Empty for a custom series.
+  indicator: IndicatorKey | '';
+  name: string;
+  unit: string;
+  color: string;
+}
+
+const inputClassName = 'bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500';
+const MAX_WARNINGS_SHOWN = 5;
+
+const mappingFor = (indicator: IndicatorKey | '', column: string, index: number): Omit<ColumnMapping, 'include'> => {
+  if (!indicator) {
+    return { indicator, name: column, unit: '', color: USER_SERIES_COLORS[index % USER_SERIES_COLORS.length] };
+  }
+  const metadata = getIndicator(indicator);
+  return { indicator, name: `${metadata.name} (in-house)`, unit: metadata.unit, color: metadata.color };
+};
+
+const ImportPanel: React.FC<ImportPanelProps> = ({ userSeries, onAdd, onRemove }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [mappings, setMappings] = useState<ColumnMapping[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setParsed(null);
+    setMappings([]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      const result = parseImportFile(file.name, await file.text());
+      setParsed(result);
+      setMappings(result.columns.map((column, index) => ({ include: true, ...mappingFor(suggestIndicator(column) ?? '', column, index) })));
+    } catch (err) {
+      reset();
+      setError(err instanceof Error ? err.message : 'The file could not be read.');
+    }
+  };
+
+  const updateMapping = (index: number, changes: Partial<ColumnMapping>) => {
+    setMappings(current => current.map((mapping, i) => (i === index ? { ...mapping, ...changes } : mapping)));
+  };
+
+  const canAdd = mappings.some(mapping => mapping.include) && mappings.every(mapping => !mapping.include || mapping.name.trim() !== '');
+
+  const handleAdd = () => {
+    if (!parsed || !canAdd) return;
+    const series = mappings.flatMap((mapping, index) => {
+      if (!mapping.include) return [];
+      const built = buildUserSeries(parsed, index, {
+        name: mapping.name.trim(),
+        unit: mapping.unit.trim(),
+        color: mapping.color,
+        ...(mapping.indicator ? { indicator: mapping.indicator } : {}),
+      });
+      return built.points.length > 0 ? [built] : [];
+    });
+    onAdd(series);
+    reset();
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-100">Import Data</h2>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1.5 bg-gray-600 text-white rounded-md hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-opacity-50 transition-colors text-sm"
+        >
+          Choose file
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="hidden"
+          onChange={e => handleFile(e.target.files?.[0])}
+        />
+      </div>
+
+      {!parsed && userSeries.length === 0 && !error && (
+        <p className="text-sm text-gray-400">Overlay your own series from a CSV or JSON file with a month column and one column per series.</p>
+      )}
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+
+      {parsed && (
+        <div className="space-y-3 mb-4">
+          <p className="text-xs text-gray-400">
+            {`${parsed.fileName}: ${parsed.rows.length} months, ${parsed.columns.length} columns.`}
+          </p>
+          {parsed.warnings.length > 0 && (
+            <ul className="text-xs text-yellow-300 space-y-0.5">
+              {parsed.warnings.slice(0, MAX_WARNINGS_SHOWN).map((warning, index) => (
+                <li key={index}>{warning.message}</li>
+              ))}
+              {parsed.warnings.length > MAX_WARNINGS_SHOWN && (
+                <li>{`…and ${parsed.warnings.length - MAX_WARNINGS_SHOWN} more.`}</li>
+              )}
+            </ul>
+          )}
+          {parsed.columns.map((column, index) => {
+            const mapping = mappings[index];
+            return (
+              <div key={column} className="p-2 rounded-md bg-gray-700/30 space-y-2">
+                <label className="flex items-center space-x-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={mapping.include}
+                    onChange={e => updateMapping(index, { include: e.target.checked })}
+                    className="accent-blue-500"
+                  />
+                  <span className="truncate">{column}</span>
+                </label>
+                {mapping.include && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={mapping.indicator}
+                      onChange={e => updateMapping(index, mappingFor(e.target.value as IndicatorKey | '', column, index))}
+                      className={inputClassName}
+                      aria-label={`Map ${column} to`}
+                    >
+                      <option value="">Custom series</option>
+                      {getIndicatorKeys().map(key => (
+                        <option key={key} value={key}>{getIndicator(key).name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={mapping.name}
+                      onChange={e => updateMapping(index, { name: e.target.value })}
+                      className={`${inputClassName} flex-1 min-w-[8rem]`}
+                      placeholder="Name"
+                      aria-label="Series name"
+                    />
+                    <input
+                      type="text"
+                      value={mapping.unit}
+                      onChange={e => updateMapping(index, { unit: e.target.value })}
+                      className={`${inputClassName} w-14`}
+                      placeholder="Unit"
+                      aria-label="Unit"
+                    />
+                    <input
+                      type="color"
+                      value={mapping.color}
+                      onChange={e => updateMapping(index, { color: e.target.value })}
+                      className="h-6 w-8 bg-transparent border-0 cursor-pointer"
+                      aria-label="Colour"
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          <div className="flex justify-end gap-2">
+            <button onClick={reset} className="px-3 py-1 text-xs text-gray-300 hover:text-white focus:outline-none">
+              Cancel
+            </button>
+            <button
+              onClick={handleAdd}
+              disabled={!canAdd}
+              className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-blue-500 text-xs"
+            >
+              Add to chart
+            </button>
+          </div>
+        </div>
+      )}
+
+      {userSeries.length > 0 && (
+        <ul className="space-y-2">
+          {userSeries.map(series => (
+            <li key={series.id} className="flex items-center justify-between p-2 rounded-md bg-gray-700/30">
+              <div className="flex items-center space-x-2 min-w-0">
+                <span className="h-3 w-3 flex-shrink-0" style={{ backgroundColor: series.color }} aria-hidden="true"></span>
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-300 truncate">{series.name}</p>
+                  <p className="text-xs text-gray-500 truncate">{`${series.fileName} · ${series.points.length} months`}</p>
+                </div>
+              </div>
+              <button
+                onClick={() => onRemove(series.id)}
+                className="ml-2 text-xs text-gray-400 hover:text-red-400 focus:outline-none"
+                aria-label={`Remove ${series.name}`}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ImportPanel;
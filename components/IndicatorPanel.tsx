@@ -1,67 +1,83 @@
 
-import React from 'react';
-import { INDICATORS_MAP, IndicatorKey } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { IndicatorKey } from '../types';
+import { EXPORT_FORMATS, ExportFormat } from '../services/exportService';
+import IndicatorSelector from './IndicatorSelector';
 
 interface IndicatorPanelProps {
-  displayedIndicators: IndicatorKey[];
-  onExportCSV: () => void;
+  selectedIndicators: IndicatorKey[];
+  onSelectionChange: (selected: IndicatorKey[]) => void;
+  isSelectionDisabled: boolean;
+  onExport: (format: ExportFormat) => void;
   isExportDisabled: boolean;
 }
 
 const IndicatorPanel: React.FC<IndicatorPanelProps> = ({
-  displayedIndicators,
-  onExportCSV,
+  selectedIndicators,
+  onSelectionChange,
+  isSelectionDisabled,
+  onExport,
   isExportDisabled,
 }) => {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the export menu when clicking anywhere outside it.
+  useEffect(() => {
+    if (!isMenuOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setIsMenuOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isMenuOpen]);
+
   return (
     <div>
       <div className="flex justify-between items-center mb-4">
-        <h2 className="text-xl font-semibold text-gray-100">Displayed Indicators</h2>
-        <button
-          onClick={onExportCSV}
-          disabled={isExportDisabled}
-          className="flex items-center px-3 py-1.5 bg-gray-600 text-white rounded-md hover:bg-gray-500 disabled:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-opacity-50 transition-colors text-sm"
-          aria-label="Export displayed data to CSV"
-        >
-          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-          </svg>
-          Export CSV
-        </button>
-      </div>
-
-      <div className="space-y-3">
-        {displayedIndicators.map(key => {
-          const indicator = INDICATORS_MAP[key];
-          return (
-            <div key={key} className="flex items-center justify-between p-2 rounded-md bg-gray-700/30">
-              <div className="flex items-center space-x-3">
-                  <span 
-                    className="h-3 w-3 rounded-full flex-shrink-0"
-                    style={{ backgroundColor: indicator.color }}
-                    aria-hidden="true"
-                  ></span>
-                  <span className="text-sm text-gray-300 select-none">{indicator.name}</span>
-              </div>
-              {indicator.thresholdDescription && (
-                 <div className="relative group flex-shrink-0 ml-2">
-                   <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-gray-400 hover:text-white transition-colors" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                   </svg>
-                   <div 
-                    className="absolute bottom-full right-0 mb-2 w-64 p-3 bg-gray-900 border border-gray-600 text-gray-300 text-xs rounded-lg shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none z-10"
-                    role="tooltip"
+        <h2 className="text-xl font-semibold text-gray-100">Indicators</h2>
+        <div className="relative" ref={menuRef}>
+          <button
+            onClick={() => setIsMenuOpen(open => !open)}
+            disabled={isExportDisabled}
+            className="flex items-center px-3 py-1.5 bg-gray-600 text-white rounded-md hover:bg-gray-500 disabled:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-opacity-50 transition-colors text-sm"
+            aria-label="Export displayed data"
+            aria-haspopup="menu"
+            aria-expanded={isMenuOpen}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+            </svg>
+            Export
+          </button>
+          {isMenuOpen && !isExportDisabled && (
+            <ul role="menu" className="absolute right-0 mt-1 w-44 z-20 bg-gray-800 border border-gray-600 rounded-md shadow-lg py-1 text-sm">
+              {EXPORT_FORMATS.map(({ format, label }) => (
+                <li key={format} role="none">
+                  <button
+                    role="menuitem"
+                    onClick={() => {
+                      setIsMenuOpen(false);
+                      onExport(format);
+                    }}
+                    className="w-full text-left px-3 py-1.5 text-gray-200 hover:bg-gray-700 focus:outline-none focus:bg-gray-700"
                   >
-                     <span className="font-bold text-white">Outlook Threshold Explained:</span> {indicator.thresholdDescription}
-                   </div>
-                 </div>
-              )}
-            </div>
-          );
-        })}
+                    {label}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
       </div>
+
+      <IndicatorSelector
+        selectedIndicators={selectedIndicators}
+        onChange={onSelectionChange}
+        isDisabled={isSelectionDisabled}
+      />
        <p className="text-xs text-gray-500 mt-4 pt-4 border-t border-gray-700 text-center">
-        Data for all available indicators is fetched automatically.
+        Only the selected indicators are fetched and charted.
       </p>
     </div>
   );
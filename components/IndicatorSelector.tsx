@@ -0,0 +1,95 @@
+
+import React from 'react';
+import { IndicatorKey } from '../types';
+import { getIndicator, getIndicatorGroups, getIndicatorKeys } from '../lib/indicators';
+
+interface IndicatorSelectorProps {
+  selectedIndicators: IndicatorKey[];
+  onChange: (selected: IndicatorKey[]) => void;
+  isDisabled: boolean;
+}
+
+const IndicatorSelector: React.FC<IndicatorSelectorProps> = ({ selectedIndicators, onChange, isDisabled }) => {
+  const selected = new Set(selectedIndicators);
+  const allKeys = getIndicatorKeys();
+
+  // Emits the new selection in the registry's order.
+  const update = (keys: Set<IndicatorKey>) => onChange(allKeys.filter(key => keys.has(key)));
+
+  const toggleIndicator = (key: IndicatorKey) => {
+    const next = new Set(selected);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    update(next);
+  };
+
+  const toggleGroup = (groupKeys: IndicatorKey[], isFullySelected: boolean) => {
+    const next = new Set(selected);
+    groupKeys.forEach(key => (isFullySelected ? next.delete(key) : next.add(key)));
+    update(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      {getIndicatorGroups().map(group => {
+        const groupKeys = allKeys.filter(key => getIndicator(key).group === group.key);
+        if (groupKeys.length === 0) return null;
+        const selectedCount = groupKeys.filter(key => selected.has(key)).length;
+        const isFullySelected = selectedCount === groupKeys.length;
+
+        return (
+          <fieldset key={group.key} disabled={isDisabled} className="disabled:opacity-60">
+            <legend className="w-full flex justify-between items-center mb-2">
+              <span className="text-xs font-semibold uppercase tracking-wider text-gray-400">{group.name}</span>
+              <button
+                type="button"
+                onClick={() => toggleGroup(groupKeys, isFullySelected)}
+                className="text-xs text-blue-400 hover:text-blue-300 focus:outline-none"
+              >
+                {isFullySelected ? 'Clear' : 'All'}
+              </button>
+            </legend>
+            <div className="space-y-2">
+              {groupKeys.map(key => {
+                const indicator = getIndicator(key);
+                return (
+                  <div key={key} className="flex items-center justify-between p-2 rounded-md bg-gray-700/30">
+                    <label className="flex items-center space-x-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(key)}
+                        onChange={() => toggleIndicator(key)}
+                        className="accent-blue-500"
+                      />
+                      <span
+                        className="h-3 w-3 rounded-full flex-shrink-0"
+                        style={{ backgroundColor: indicator.color }}
+                        aria-hidden="true"
+                      ></span>
+                      <span className="text-sm text-gray-300 select-none">{indicator.name}</span>
+                    </label>
+                    {indicator.thresholdDescription && (
+                      <div className="relative group flex-shrink-0 ml-2">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-gray-400 hover:text-white transition-colors" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                        </svg>
+                        <div
+                          className="absolute bottom-full right-0 mb-2 w-64 p-3 bg-gray-900 border border-gray-600 text-gray-300 text-xs rounded-lg shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none z-10"
+                          role="tooltip"
+                        >
+                          <span className="font-bold text-white">Outlook Threshold Explained:</span> {indicator.thresholdDescription}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </fieldset>
+        );
+      })}
+    </div>
+  );
+};
+
+export default IndicatorSelector;
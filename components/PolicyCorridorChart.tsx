@@ -0,0 +1,178 @@
+
+import React from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine, ReferenceArea, Label } from 'recharts';
+import { EconomicIndicator, IndicatorKey } from '../types';
+import { CorridorRow, buildCorridorRows, findPolicyDecisions, formatBasisPoints, PolicyDecision } from '../lib/policy';
+import { formatValue } from '../lib/format';
+import { getIndicator, getPolicyCorridor } from '../lib/indicators';
+
+interface PolicyCorridorChartProps {
+  data: EconomicIndicator[];
+  selectedIndicators: IndicatorKey[];
+  // Adds indicators to the selection so the corridor can be drawn.
+  onAddIndicators: (keys: IndicatorKey[]) => void;
+}
+
+const REAL_RATE_COLOR = '#22d3ee';
+const MAX_DECISIONS_SHOWN = 8;
+
+const describeDecision = (decision: PolicyDecision): string => {
+  const direction = decision.change > 0 ? 'Raised' : 'Cut';
+  return `${direction} ${Math.abs(Math.round(decision.change * 100))} bp to ${formatValue(decision.rate, '%')}`;
+};
+
+const CorridorTooltip: React.FC<any> = ({ active, payload, label, decisions }) => {
+  const corridor = getPolicyCorridor();
+  if (!active || !payload || !payload.length || !corridor) return null;
+  const row = payload[0].payload as CorridorRow;
+  const decision = (decisions as PolicyDecision[]).find(item => item.month === label);
+  const lines: { key: string; name: string; value: number | null; color: string }[] = [
+    { key: 'policyRate', name: getIndicator(corridor.policyRate).name, value: row.policyRate, color: getIndicator(corridor.policyRate).color },
+    { key: 'ceiling', name: getIndicator(corridor.ceiling).name, value: row.ceiling, color: getIndicator(corridor.ceiling).color },
+    { key: 'floor', name: getIndicator(corridor.floor).name, value: row.floor, color: getIndicator(corridor.floor).color },
+    ...(corridor.lendingRate ? [{ key: 'lendingRate', name: getIndicator(corridor.lendingRate).name, value: row.lendingRate, color: getIndicator(corridor.lendingRate).color }] : []),
+    ...(corridor.inflation ? [{ key: 'inflation', name: getIndicator(corridor.inflation).name, value: row.inflation, color: getIndicator(corridor.inflation).color }] : []),
+    { key: 'realPolicyRate', name: 'Real policy rate', value: row.realPolicyRate, color: REAL_RATE_COLOR },
+  ];
+
+  return (
+    <div className="p-4 bg-gray-800 bg-opacity-90 border border-gray-700 rounded-lg shadow-lg">
+      <p className="label text-lg font-bold text-white">
+        {`${label}`}
+        {row.isForecast && <span className="ml-2 text-xs font-normal text-gray-400">(Forecast)</span>}
+      </p>
+      {lines.filter(line => line.value !== null).map(line => (
+        <p key={line.key} style={{ color: line.color }} className="intro">{`${line.name}: ${formatValue(line.value!, '%')}`}</p>
+      ))}
+      {decision && (
+        <p className={`mt-1 text-xs font-semibold ${decision.isForecast ? 'text-yellow-300' : 'text-gray-200'}`}>
+          {`Policy decision: ${describeDecision(decision)}${decision.isForecast ? ' (forecast)' : ''}`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+// Draws the BSP interest rate corridor: the band between the deposit and lending facility rates,
+// the policy rate within it, and each change in the policy rate as a decision.
+const PolicyCorridorChart: React.FC<PolicyCorridorChartProps> = ({ data, selectedIndicators, onAddIndicators }) => {
+  const corridor = getPolicyCorridor();
+  if (!corridor) return null;
+
+  const required = [corridor.policyRate, corridor.floor, corridor.ceiling];
+  const optional = [corridor.lendingRate, corridor.inflation].filter((key): key is IndicatorKey => !!key);
+  const missing = required.filter(key => !selectedIndicators.includes(key));
+  const missingOptional = optional.filter(key => !selectedIndicators.includes(key));
+
+  if (missing.length > 0) {
+    return (
+      <div>
+        <h2 className="text-xl font-semibold text-gray-100 mb-4">Policy Corridor</h2>
+        <p className="text-sm text-gray-400 mb-3">
+          {`The corridor needs ${missing.map(key => getIndicator(key).name).join(', ')} on the chart.`}
+        </p>
+        <button
+          onClick={() => onAddIndicators([...missing, ...missingOptional])}
+          className="px-3 py-1.5 bg-gray-600 text-white rounded-md hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-opacity-50 transition-colors text-sm"
+        >
+          Add corridor indicators
+        </button>
+      </div>
+    );
+  }
+
+  const rows = buildCorridorRows(data, corridor);
+  const decisions = findPolicyDecisions(data, corridor);
+  const forecastStartMonth = rows.find(row => row.isForecast && row.policyRate !== null)?.month;
+  const lastMonth = rows[rows.length - 1]?.month;
+  const policy = getIndicator(corridor.policyRate);
+  const hasInflation = !!corridor.inflation && selectedIndicators.includes(corridor.inflation);
+  const hasLendingRate = !!corridor.lendingRate && selectedIndicators.includes(corridor.lendingRate);
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h2 className="text-xl font-semibold text-gray-100">Policy Corridor</h2>
+        {missingOptional.length > 0 && (
+          <button onClick={() => onAddIndicators(missingOptional)} className="text-xs text-blue-400 hover:text-blue-300 underline focus:outline-none">
+            {`Add ${missingOptional.map(key => getIndicator(key).name).join(' and ')}`}
+          </button>
+        )}
+      </div>
+
+      <ResponsiveContainer width="100%" height={380}>
+        <ComposedChart data={rows} margin={{ top: 24, right: 30, left: 10, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#4b5563" />
+          <XAxis dataKey="month" stroke="#d1d5db" />
+          <YAxis stroke="#d1d5db" unit="%" domain={['auto', 'auto']} tickFormatter={(tick) => `${tick}%`} />
+          <Tooltip content={<CorridorTooltip decisions={decisions} />} />
+          <Legend wrapperStyle={{ color: '#d1d5db' }} />
+
+          {forecastStartMonth && lastMonth && (
+            <ReferenceArea x1={forecastStartMonth} x2={lastMonth} fill="#9ca3af" fillOpacity={0.08} ifOverflow="visible">
+              <Label value="Forecast" position="insideTopRight" fill="#9ca3af" fontSize="12" />
+            </ReferenceArea>
+          )}
+          {hasInflation && <ReferenceLine y={0} stroke="#6b7280" />}
+
+          {/* Each change in the policy rate, labelled with its size. */}
+          {decisions.map(decision => (
+            <ReferenceLine
+                key={`decision-${decision.month}`}
+                x={decision.month}
+                stroke={decision.isForecast ? '#f59e0b' : '#9ca3af'}
+                strokeDasharray="2 3"
+            >
+              <Label value={formatBasisPoints(decision.change)} position="top" fill={decision.isForecast ? '#fcd34d' : '#d1d5db'} fontSize="11" />
+            </ReferenceLine>
+          ))}
+
+          <Area
+              type="stepAfter"
+              dataKey="corridor"
+              name={`Corridor (${getIndicator(corridor.floor).name} to ${getIndicator(corridor.ceiling).name})`}
+              stroke="none"
+              fill={policy.color}
+              fillOpacity={0.15}
+              legendType="rect"
+              activeDot={false}
+              isAnimationActive={false}
+          />
+          <Line type="stepAfter" dataKey="ceiling" name={getIndicator(corridor.ceiling).name} stroke={getIndicator(corridor.ceiling).color} strokeWidth={1} strokeOpacity={0.7} dot={false} legendType="none" connectNulls />
+          <Line type="stepAfter" dataKey="floor" name={getIndicator(corridor.floor).name} stroke={getIndicator(corridor.floor).color} strokeWidth={1} strokeOpacity={0.7} dot={false} legendType="none" connectNulls />
+          <Line type="stepAfter" dataKey="policyRate" name={policy.name} stroke={policy.color} strokeWidth={3} dot={false} connectNulls />
+          {hasLendingRate && (
+            <Line type="monotone" dataKey="lendingRate" name={getIndicator(corridor.lendingRate!).name} stroke={getIndicator(corridor.lendingRate!).color} strokeWidth={2} dot={false} connectNulls />
+          )}
+          {hasInflation && (
+            <Line type="monotone" dataKey="inflation" name={getIndicator(corridor.inflation!).name} stroke={getIndicator(corridor.inflation!).color} strokeWidth={1.5} strokeDasharray="4 3" dot={false} connectNulls />
+          )}
+          {hasInflation && (
+            <Line type="monotone" dataKey="realPolicyRate" name="Real policy rate" stroke={REAL_RATE_COLOR} strokeWidth={2} dot={false} connectNulls />
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      <div className="mt-4">
+        <h3 className="text-sm font-semibold text-gray-300 mb-2">Policy decisions</h3>
+        {decisions.length === 0 ? (
+          <p className="text-xs text-gray-400">{`${policy.name} is unchanged over the selected range.`}</p>
+        ) : (
+          <ul className="text-xs text-gray-300 space-y-1">
+            {[...decisions].reverse().slice(0, MAX_DECISIONS_SHOWN).map(decision => (
+              <li key={decision.month} className={decision.isForecast ? 'text-yellow-300' : ''}>
+                <span className="font-semibold">{decision.month}</span>
+                {` · ${describeDecision(decision)} (from ${formatValue(decision.previousRate, '%')})${decision.isForecast ? ' · forecast' : ''}`}
+              </li>
+            ))}
+            {decisions.length > MAX_DECISIONS_SHOWN && (
+              <li className="text-gray-500">{`…and ${decisions.length - MAX_DECISIONS_SHOWN} earlier.`}</li>
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PolicyCorridorChart;
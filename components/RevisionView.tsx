@@ -0,0 +1,176 @@
+
+import React, { useEffect, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { IndicatorKey, VintageDiff, VintageSummary } from '../types';
+import { fetchVintageDiff } from '../services/vintageService';
+import { formatDelta, formatValue } from '../lib/format';
+import { getIndicator, getIndicatorKeys } from '../lib/indicators';
+
+interface RevisionViewProps {
+  vintages: VintageSummary[];
+}
+
+// Colors for vintages, oldest first. The newest vintage always gets the brightest line.
+const VINTAGE_COLORS = ['#64748b', '#a855f7', '#f97316', '#eab308', '#22c55e', '#0ea5e9', '#ef4444', '#ec4899', '#14b8a6', '#3b82f6'];
+
+const MAX_SELECTED = 10;
+
+const formatVintageLabel = (vintage: VintageSummary): string => new Date(vintage.createdAt).toLocaleString();
+
+const RevisionView: React.FC<RevisionViewProps> = ({ vintages }) => {
+  const [indicator, setIndicator] = useState<IndicatorKey>('inflationRate');
+  // Default to comparing the two most recent vintages.
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => vintages.slice(0, 2).map(v => v.id));
+  const [diff, setDiff] = useState<VintageDiff | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Drop selections for vintages that are no longer listed.
+  useEffect(() => {
+    setSelectedIds(ids => {
+      const kept = ids.filter(id => vintages.some(v => v.id === id));
+      return kept.length >= 2 ? kept : vintages.slice(0, 2).map(v => v.id);
+    });
+  }, [vintages]);
+
+  useEffect(() => {
+    if (selectedIds.length < 2) {
+      setDiff(null);
+      return;
+    }
+
+    let isCancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    fetchVintageDiff(selectedIds, indicator)
+      .then(result => {
+        if (!isCancelled) setDiff(result);
+      })
+      .catch(err => {
+        if (!isCancelled) setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [selectedIds, indicator]);
+
+  const toggleVintage = (id: string) => {
+    setSelectedIds(ids => {
+      if (ids.includes(id)) return ids.filter(existing => existing !== id);
+      return ids.length >= MAX_SELECTED ? ids : [...ids, id];
+    });
+  };
+
+  const metadata = getIndicator(indicator);
+  const largestMonths = new Set(diff?.largestRevisions.map(r => r.month));
+  const chartData = diff?.points.map(point => {
+    const row: Record<string, string | number | null> = { month: point.month };
+    diff.vintages.forEach((vintage, index) => {
+      row[vintage.id] = point.values[index];
+    });
+    return row;
+  });
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h2 className="text-xl font-semibold text-gray-100">Forecast Revisions</h2>
+        <select
+          value={indicator}
+          onChange={e => setIndicator(e.target.value as IndicatorKey)}
+          className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Indicator to compare"
+        >
+          {getIndicatorKeys().map(key => (
+            <option key={key} value={key}>{getIndicator(key).name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {vintages.map(vintage => (
+          <label key={vintage.id} className="flex items-center space-x-2 px-2 py-1 rounded-md bg-gray-700/30 text-xs text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selectedIds.includes(vintage.id)}
+              onChange={() => toggleVintage(vintage.id)}
+              className="accent-blue-500"
+            />
+            <span>{formatVintageLabel(vintage)}</span>
+          </label>
+        ))}
+      </div>
+
+      {selectedIds.length < 2 && (
+        <p className="text-sm text-gray-400">Select at least two vintages to compare.</p>
+      )}
+      {isLoading && <p className="text-sm text-gray-400">Computing revisions...</p>}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {diff && !isLoading && !error && (
+        <>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={chartData} margin={{ top: 10, right: 30, left: 10, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#4b5563" />
+              <XAxis dataKey="month" stroke="#d1d5db" />
+              <YAxis stroke="#d1d5db" domain={['auto', 'auto']} tickFormatter={(tick) => formatValue(tick, metadata.unit, 1)} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151' }}
+                formatter={(value: number) => formatValue(value, metadata.unit)}
+              />
+              <Legend wrapperStyle={{ color: '#d1d5db' }} />
+              {diff.vintages.map((vintage, index) => (
+                <Line
+                  key={vintage.id}
+                  type="monotone"
+                  dataKey={vintage.id}
+                  name={formatVintageLabel(vintage)}
+                  stroke={index === diff.vintages.length - 1 ? metadata.color : VINTAGE_COLORS[index % VINTAGE_COLORS.length]}
+                  strokeWidth={index === diff.vintages.length - 1 ? 2.5 : 1.5}
+                  strokeDasharray={index === diff.vintages.length - 1 ? undefined : '4 3'}
+                  connectNulls
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-xs text-left text-gray-300">
+              <thead className="text-gray-400 border-b border-gray-700">
+                <tr>
+                  <th className="py-2 pr-3">Month</th>
+                  {diff.vintages.map(vintage => (
+                    <th key={vintage.id} className="py-2 pr-3">{formatVintageLabel(vintage)}</th>
+                  ))}
+                  <th className="py-2">Total revision</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.points.map(point => (
+                  <tr
+                    key={point.month}
+                    className={`border-b border-gray-800 ${largestMonths.has(point.month) ? 'bg-amber-900/30 text-amber-200 font-semibold' : ''}`}
+                  >
+                    <td className="py-1.5 pr-3">{point.month}</td>
+                    {point.values.map((value, index) => (
+                      <td key={index} className="py-1.5 pr-3">{value === null ? '—' : formatValue(value, metadata.unit)}</td>
+                    ))}
+                    <td className="py-1.5">{point.totalDelta === null ? '—' : formatDelta(point.totalDelta, metadata.unit)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RevisionView;
@@ -0,0 +1,257 @@
+
+import React, { useState } from 'react';
+import { IndicatorKey, SHOCK_KINDS, Scenario, ShockKind } from '../types';
+import { MAX_PASS_THROUGH_LAG, SHOCK_KIND_LABELS, ScenarioEffect, describeShock, parseScenario } from '../lib/scenarios';
+import { MonthRange } from '../lib/months';
+import { formatDelta } from '../lib/format';
+import { getIndicator, getIndicatorKeys } from '../lib/indicators';
+
+interface ScenarioPanelProps {
+  scenarios: Scenario[];
+  activeScenarioId: string | null;
+  // The active scenario's peak changes to the indicators on the chart.
+  effects: ScenarioEffect[];
+  // The months a new shock covers until it is edited.
+  defaultMonths: MonthRange;
+  onSelect: (id: string | null) => void;
+  onSave: (scenario: Scenario) => void;
+  onDelete: (id: string) => void;
+}
+
+interface ShockForm {
+  indicator: IndicatorKey;
+  kind: ShockKind;
+  value: string;
+  startMonth: string;
+  endMonth: string;
+}
+
+interface RuleForm {
+  source: IndicatorKey;
+  target: IndicatorKey;
+  coefficient: string;
+  lag: string;
+}
+
+interface ScenarioForm {
+  // Missing for a scenario that hasn't been saved yet.
+  id?: string;
+  name: string;
+  shocks: ShockForm[];
+  rules: RuleForm[];
+}
+
+const inputClassName = 'bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const toForm = (scenario: Scenario): ScenarioForm => ({
+  id: scenario.id,
+  name: scenario.name,
+  shocks: scenario.shocks.map(shock => ({ ...shock, value: String(shock.value) })),
+  rules: scenario.rules.map(rule => ({ ...rule, coefficient: String(rule.coefficient), lag: String(rule.lag) })),
+});
+
+const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ scenarios, activeScenarioId, effects, defaultMonths, onSelect, onSave, onDelete }) => {
+  const [form, setForm] = useState<ScenarioForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const keys = getIndicatorKeys();
+  const newShock = (): ShockForm => ({ indicator: keys[0] ?? '', kind: 'percent', value: '', ...defaultMonths });
+  const newRule = (): RuleForm => ({ source: keys[0] ?? '', target: keys[1] ?? '', coefficient: '', lag: '0' });
+
+  const updateForm = (changes: Partial<ScenarioForm>) => setForm(current => (current ? { ...current, ...changes } : current));
+  const updateShock = (index: number, changes: Partial<ShockForm>) => {
+    setForm(current => (current ? { ...current, shocks: current.shocks.map((shock, i) => (i === index ? { ...shock, ...changes } : shock)) } : current));
+  };
+  const updateRule = (index: number, changes: Partial<RuleForm>) => {
+    setForm(current => (current ? { ...current, rules: current.rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)) } : current));
+  };
+
+  const closeForm = () => {
+    setForm(null);
+    setFormError(null);
+  };
+
+  const handleSave = () => {
+    if (!form) return;
+    const toNumber = (text: string) => (text.trim() === '' ? undefined : Number(text));
+    const { scenario, problems } = parseScenario({
+      id: form.id,
+      name: form.name,
+      shocks: form.shocks.map(shock => ({ ...shock, value: toNumber(shock.value) })),
+      rules: form.rules.map(rule => ({ ...rule, coefficient: toNumber(rule.coefficient), lag: toNumber(rule.lag) })),
+      updatedAt: new Date().toISOString(),
+    }, 'The scenario');
+    if (!scenario) {
+      setFormError(problems.join(' '));
+      return;
+    }
+    onSave(scenario);
+    closeForm();
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-100">Scenarios</h2>
+        {!form && (
+          <button
+            onClick={() => setForm({ name: '', shocks: [newShock()], rules: [] })}
+            className="px-3 py-1.5 bg-gray-600 text-white rounded-md hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-opacity-50 transition-colors text-sm"
+          >
+            New scenario
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <div className="p-3 mb-4 rounded-md bg-gray-700/30 space-y-3">
+          <input
+            type="text"
+            value={form.name}
+            onChange={e => updateForm({ name: e.target.value })}
+            className={`${inputClassName} w-full`}
+            placeholder="Scenario name, e.g. Oil +20%, peso at 60"
+            aria-label="Scenario name"
+          />
+
+          <div className="space-y-2">
+            <h3 className="text-xs font-semibold text-gray-300">Shocks</h3>
+            {form.shocks.map((shock, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <select value={shock.indicator} onChange={e => updateShock(index, { indicator: e.target.value })} className={inputClassName} aria-label="Shocked indicator">
+                  {keys.map(key => (
+                    <option key={key} value={key}>{getIndicator(key).name}</option>
+                  ))}
+                </select>
+                <select value={shock.kind} onChange={e => updateShock(index, { kind: e.target.value as ShockKind })} className={inputClassName} aria-label="Shock type">
+                  {SHOCK_KINDS.map(kind => (
+                    <option key={kind} value={kind}>{SHOCK_KIND_LABELS[kind]}</option>
+                  ))}
+                </select>
+                <input type="number" step="any" value={shock.value} onChange={e => updateShock(index, { value: e.target.value })} className={`${inputClassName} w-20`} placeholder="Value" aria-label="Shock value" />
+                <span className="text-xs text-gray-400">{shock.kind === 'percent' ? '%' : getIndicator(shock.indicator).unit}</span>
+                <input type="month" value={shock.startMonth} onChange={e => updateShock(index, { startMonth: e.target.value })} className={inputClassName} aria-label="First month" />
+                <span className="text-xs text-gray-400">to</span>
+                <input type="month" value={shock.endMonth} onChange={e => updateShock(index, { endMonth: e.target.value })} className={inputClassName} aria-label="Last month" />
+                <button
+                  onClick={() => updateForm({ shocks: form.shocks.filter((_, i) => i !== index) })}
+                  className="text-xs text-gray-400 hover:text-red-400 focus:outline-none"
+                  aria-label="Remove shock"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button onClick={() => updateForm({ shocks: [...form.shocks, newShock()] })} className="text-xs text-blue-400 hover:text-blue-300 focus:outline-none">
+              + Add shock
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-xs font-semibold text-gray-300">Pass-through rules</h3>
+            {form.rules.length === 0 && (
+              <p className="text-xs text-gray-500">Carry a change on to other indicators, e.g. 0.05 points of inflation per dollar of oil, two months later.</p>
+            )}
+            {form.rules.map((rule, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                <span>Each unit of</span>
+                <select value={rule.source} onChange={e => updateRule(index, { source: e.target.value })} className={inputClassName} aria-label="Source indicator">
+                  {keys.map(key => (
+                    <option key={key} value={key}>{getIndicator(key).name}</option>
+                  ))}
+                </select>
+                <span>moves</span>
+                <select value={rule.target} onChange={e => updateRule(index, { target: e.target.value })} className={inputClassName} aria-label="Target indicator">
+                  {keys.map(key => (
+                    <option key={key} value={key}>{getIndicator(key).name}</option>
+                  ))}
+                </select>
+                <span>by</span>
+                <input type="number" step="any" value={rule.coefficient} onChange={e => updateRule(index, { coefficient: e.target.value })} className={`${inputClassName} w-20`} placeholder="Coefficient" aria-label="Coefficient" />
+                <span>after</span>
+                <input type="number" min={0} max={MAX_PASS_THROUGH_LAG} value={rule.lag} onChange={e => updateRule(index, { lag: e.target.value })} className={`${inputClassName} w-14`} aria-label="Lag in months" />
+                <span>months</span>
+                <button
+                  onClick={() => updateForm({ rules: form.rules.filter((_, i) => i !== index) })}
+                  className="hover:text-red-400 focus:outline-none"
+                  aria-label="Remove rule"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button onClick={() => updateForm({ rules: [...form.rules, newRule()] })} className="text-xs text-blue-400 hover:text-blue-300 focus:outline-none">
+              + Add rule
+            </button>
+          </div>
+
+          {formError && <p className="text-xs text-red-400">{formError}</p>}
+          <div className="flex justify-end gap-2">
+            <button onClick={closeForm} className="px-3 py-1 text-xs text-gray-300 hover:text-white focus:outline-none">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 text-xs"
+            >
+              Save and show
+            </button>
+          </div>
+        </div>
+      )}
+
+      {scenarios.length === 0 && !form && (
+        <p className="text-sm text-gray-400">Build a what-if scenario from shocks to chosen indicators and rules that pass them on, then compare it with the baseline on the chart.</p>
+      )}
+
+      <ul className="space-y-2">
+        {scenarios.map(scenario => {
+          const isActive = scenario.id === activeScenarioId;
+          return (
+            <li key={scenario.id} className={`p-3 rounded-lg border text-sm ${isActive ? 'border-blue-500/60 bg-blue-900/20' : 'border-gray-600 bg-gray-700/30'}`}>
+              <div className="flex justify-between items-start gap-2">
+                <div className="min-w-0">
+                  <p className="font-semibold text-gray-200">{scenario.name}</p>
+                  <ul className="text-xs text-gray-400 space-y-0.5">
+                    {scenario.shocks.map((shock, index) => (
+                      <li key={index}>{`${getIndicator(shock.indicator).name} ${describeShock(shock)}`}</li>
+                    ))}
+                    {scenario.rules.map((rule, index) => (
+                      <li key={`rule-${index}`}>{`${getIndicator(rule.source).name} → ${getIndicator(rule.target).name} × ${rule.coefficient}${rule.lag > 0 ? `, ${rule.lag} months later` : ''}`}</li>
+                    ))}
+                  </ul>
+                </div>
+                <div className="flex flex-shrink-0 gap-3 text-xs">
+                  <button onClick={() => onSelect(isActive ? null : scenario.id)} className="text-blue-400 hover:text-blue-300 focus:outline-none">
+                    {isActive ? 'Hide' : 'Show'}
+                  </button>
+                  <button onClick={() => { setForm(toForm(scenario)); setFormError(null); }} className="text-gray-400 hover:text-white focus:outline-none">
+                    Edit
+                  </button>
+                  <button onClick={() => onDelete(scenario.id)} className="text-gray-400 hover:text-red-400 focus:outline-none" aria-label={`Delete ${scenario.name}`}>
+                    Delete
+                  </button>
+                </div>
+              </div>
+              {isActive && (
+                <div className="mt-2 text-xs text-gray-300">
+                  {effects.length === 0 ? (
+                    <p className="text-gray-500">The scenario doesn't move any of the indicators on the chart.</p>
+                  ) : (
+                    <ul className="space-y-0.5">
+                      {effects.map(effect => (
+                        <li key={effect.indicator}>{`Peak effect on ${getIndicator(effect.indicator).name}: ${formatDelta(effect.delta, getIndicator(effect.indicator).unit)} in ${effect.month}`}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ScenarioPanel;
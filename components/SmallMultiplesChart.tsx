@@ -0,0 +1,77 @@
+
+import React from 'react';
+import { AlertResult, Annotation, Anomaly, EconomicIndicator, IndicatorKey, IndicatorMetadata, IndicatorProjection, UserSeries } from '../types';
+import EconomicChart from './EconomicChart';
+import { getIndicator } from '../lib/indicators';
+
+interface SmallMultiplesChartProps {
+  data: EconomicIndicator[];
+  displayedIndicators: IndicatorKey[];
+  metadata?: Partial<Record<IndicatorKey, IndicatorMetadata>>;
+  userSeries?: UserSeries[];
+  alertResults?: AlertResult[];
+  anomalies?: Anomaly[];
+  // Passed to every panel, since projections can add months and synced panels need the same months.
+  projections?: IndicatorProjection[];
+  scenario?: { name: string; data: EconomicIndicator[] };
+  annotations?: Annotation[];
+}
+
+const UNIT_NAMES: Record<string, string> = {
+  '%': 'Percent',
+  '₱': 'Philippine Peso',
+  '$': 'US Dollar',
+  'pp': 'Percentage Points',
+  'σ': 'Standard Deviations',
+  '': 'Index',
+};
+
+const PANEL_HEIGHT = 240;
+const SYNC_ID = 'economic-small-multiples';
+
+// Renders one panel per unit, stacked on a shared month axis. Panels are synchronized so the
+// tooltip, crosshair and brush move together.
+const SmallMultiplesChart: React.FC<SmallMultiplesChartProps> = ({ data, displayedIndicators, metadata, userSeries = [], alertResults, anomalies, projections, scenario, annotations }) => {
+  const groups = new Map<string, { keys: IndicatorKey[]; userSeries: UserSeries[] }>();
+  const getGroup = (unit: string) => groups.get(unit) ?? { keys: [], userSeries: [] };
+  for (const key of displayedIndicators) {
+    const unit = (metadata?.[key] ?? getIndicator(key)).unit;
+    const group = getGroup(unit);
+    groups.set(unit, { ...group, keys: [...group.keys, key] });
+  }
+  // Imported series join the panel for their unit.
+  for (const series of userSeries) {
+    const group = getGroup(series.unit);
+    groups.set(series.unit, { ...group, userSeries: [...group.userSeries, series] });
+  }
+  const entries = Array.from(groups.entries());
+
+  return (
+    <div className="space-y-4">
+      {entries.map(([unit, group], index) => {
+        const isLast = index === entries.length - 1;
+        return (
+          <div key={unit}>
+            <h3 className="text-sm font-semibold text-gray-400 mb-1">{unit ? `${UNIT_NAMES[unit] ?? unit} (${unit})` : UNIT_NAMES[unit]}</h3>
+            <EconomicChart
+              data={data}
+              displayedIndicators={group.keys}
+              syncId={SYNC_ID}
+              height={isLast ? PANEL_HEIGHT + 30 : PANEL_HEIGHT}
+              showBrush={isLast}
+              metadata={metadata}
+              userSeries={group.userSeries}
+              alertResults={alertResults}
+              anomalies={anomalies}
+              projections={projections}
+              scenario={scenario}
+              annotations={annotations}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SmallMultiplesChart;
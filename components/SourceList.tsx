@@ -1,45 +1,145 @@
 
-import React from 'react';
-import { Source } from '../types';
+import React, { useState } from 'react';
+import { IndicatorKey, Source, SourceTrust, UserSeries } from '../types';
+import { getIndicator } from '../lib/indicators';
+import { getIndicatorSources, getSourceDomain, getSourceTrust, isLowTrust, rankSources } from '../lib/sources';
 
 interface SourceListProps {
   sources: Source[];
+  // Imported series are listed as a single "User data" entry, grouped by file.
+  userSeries?: UserSeries[];
+  // The indicators on the chart, listed with the sources that back them.
+  indicators?: IndicatorKey[];
 }
 
-const SourceList: React.FC<SourceListProps> = ({ sources }) => {
+const TRUST_BADGES: Record<SourceTrust, { label: string; className: string }> = {
+  official: { label: 'Official', className: 'bg-green-900/60 text-green-300 border-green-600/60' },
+  institutional: { label: 'Institution', className: 'bg-blue-900/60 text-blue-300 border-blue-600/60' },
+  news: { label: 'News', className: 'bg-yellow-900/60 text-yellow-300 border-yellow-600/60' },
+  unknown: { label: 'Unverified', className: 'bg-gray-700 text-gray-300 border-gray-500' },
+};
+
+const TrustBadge: React.FC<{ trust: SourceTrust }> = ({ trust }) => (
+  <span className={`flex-shrink-0 px-1.5 py-0.5 rounded border text-[10px] font-semibold uppercase tracking-wide ${TRUST_BADGES[trust].className}`}>
+    {TRUST_BADGES[trust].label}
+  </span>
+);
+
+const SourceList: React.FC<SourceListProps> = ({ sources, userSeries = [], indicators = [] }) => {
+  const [view, setView] = useState<'all' | 'indicator'>('all');
+  const userFiles = Array.from(new Set(userSeries.map(series => series.fileName)));
+  const ranked = rankSources(sources);
+
+  const backing = indicators.map(indicator => ({ indicator, sources: getIndicatorSources(sources, indicator) }));
+  // Series whose every attributed source is a news or unknown site.
+  const lowTrustIndicators = backing.filter(entry => entry.sources.length > 0 && entry.sources.every(source => isLowTrust(getSourceTrust(source))));
+
   return (
     <section>
-      <h2 className="text-xl font-semibold text-gray-100 mb-4">Data Sources</h2>
-      <ul className="space-y-3">
-        {sources.map((source) => {
-          let hostname = 'unknown source';
-          try {
-             hostname = new URL(source.uri).hostname.replace(/^www\./, '');
-          } catch (e) {
-            console.error("Invalid source URI:", source.uri);
-          }
-          
-          return (
-            <li key={source.uri}>
-              <a
-                href={source.uri}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="block p-3 rounded-lg bg-gray-700/50 hover:bg-gray-700 border border-gray-600 hover:border-blue-500 transition-all duration-300 group"
-                title={source.uri}
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-100">Data Sources</h2>
+        {indicators.length > 0 && (
+          <div className="flex rounded-md overflow-hidden border border-gray-600 text-xs" role="group" aria-label="Group sources">
+            {(['all', 'indicator'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-2 py-1 focus:outline-none ${view === option ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                aria-pressed={view === option}
               >
-                <div className="flex justify-between items-start">
-                  <span className="font-semibold text-sm text-blue-400 group-hover:text-blue-300 pr-2">{source.title}</span>
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-gray-500 group-hover:text-gray-300 transition-colors flex-shrink-0 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-                  </svg>
-                </div>
-                <p className="text-xs text-gray-500 mt-1 truncate">{hostname}</p>
-              </a>
+                {option === 'all' ? 'All' : 'By indicator'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {lowTrustIndicators.length > 0 && (
+        <div className="mb-3 p-3 rounded-lg bg-yellow-900/20 border border-yellow-600/50 text-xs text-yellow-300">
+          {`Backed only by news or unverified sites: ${lowTrustIndicators.map(entry => getIndicator(entry.indicator).name).join(', ')}. Check these figures against official releases.`}
+        </div>
+      )}
+
+      {view === 'indicator' ? (
+        <ul className="space-y-3">
+          {backing.map(({ indicator, sources: indicatorSources }) => (
+            <li key={indicator} className="p-3 rounded-lg bg-gray-700/50 border border-gray-600">
+              <span className="font-semibold text-sm" style={{ color: getIndicator(indicator).color }}>{getIndicator(indicator).name}</span>
+              {indicatorSources.length === 0 ? (
+                <p className="text-xs text-gray-500 mt-1">No source was matched to this series.</p>
+              ) : (
+                <ul className="mt-1 space-y-1">
+                  {indicatorSources.map(source => {
+                    const months = source.attributions?.find(attribution => attribution.indicator === indicator)?.months ?? [];
+                    return (
+                      <li key={source.uri} className="flex items-center justify-between gap-2">
+                        <a
+                          href={source.uri}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs text-blue-400 hover:text-blue-300 truncate"
+                          title={`${source.title}\n${months.join(', ')}`}
+                        >
+                          {`${getSourceDomain(source) ?? source.title} · ${months.length} month${months.length === 1 ? '' : 's'}`}
+                        </a>
+                        <TrustBadge trust={getSourceTrust(source)} />
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
             </li>
-          );
-        })}
-      </ul>
+          ))}
+        </ul>
+      ) : (
+        <ul className="space-y-3">
+          {userFiles.length > 0 && (
+            <li className="p-3 rounded-lg bg-gray-700/50 border border-dashed border-pink-400/60">
+              <span className="font-semibold text-sm text-pink-300">User data</span>
+              <ul className="mt-1 space-y-0.5">
+                {userFiles.map(fileName => {
+                  const names = userSeries.filter(series => series.fileName === fileName).map(series => series.name);
+                  return (
+                    <li key={fileName} className="text-xs text-gray-400 truncate" title={names.join(', ')}>
+                      {`${fileName} · ${names.length} series`}
+                    </li>
+                  );
+                })}
+              </ul>
+            </li>
+          )}
+          {ranked.map((source) => {
+            const hostname = getSourceDomain(source) ?? 'unknown source';
+            const backedIndicators = (source.attributions ?? []).map(attribution => getIndicator(attribution.indicator).name);
+
+            return (
+              <li key={source.uri}>
+                <a
+                  href={source.uri}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block p-3 rounded-lg bg-gray-700/50 hover:bg-gray-700 border border-gray-600 hover:border-blue-500 transition-all duration-300 group"
+                  title={source.uri}
+                >
+                  <div className="flex justify-between items-start">
+                    <span className="font-semibold text-sm text-blue-400 group-hover:text-blue-300 pr-2">{source.title}</span>
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-gray-500 group-hover:text-gray-300 transition-colors flex-shrink-0 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                    </svg>
+                  </div>
+                  <div className="flex justify-between items-center gap-2 mt-1">
+                    <p className="text-xs text-gray-500 truncate">{hostname}</p>
+                    <TrustBadge trust={source.trust ?? 'unknown'} />
+                  </div>
+                  {backedIndicators.length > 0 && (
+                    <p className="text-xs text-gray-400 mt-1 truncate" title={backedIndicators.join(', ')}>{`Backs ${backedIndicators.join(', ')}`}</p>
+                  )}
+                </a>
+              </li>
+            );
+          })}
+        </ul>
+      )}
     </section>
   );
 };
@@ -0,0 +1,99 @@
+
+import React from 'react';
+import { IndicatorKey } from '../types';
+import { DEFAULT_ROLLING_WINDOW, IndicatorTransform, TRANSFORM_OPTIONS, TransformKind, TransformSettings } from '../lib/transforms';
+import { getIndicator } from '../lib/indicators';
+
+interface TransformPanelProps {
+  indicators: IndicatorKey[];
+  // Months available for rebasing, in ascending order.
+  months: string[];
+  // Whether quarterly series are interpolated to monthly values, and so transformed month by month.
+  interpolated: boolean;
+  settings: TransformSettings;
+  onChange: (settings: TransformSettings) => void;
+}
+
+const selectClassName = 'bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const TransformPanel: React.FC<TransformPanelProps> = ({ indicators, months, interpolated, settings, onChange }) => {
+  const update = (key: IndicatorKey, transform: IndicatorTransform) => {
+    onChange({ ...settings, [key]: transform });
+  };
+
+  const hasTransforms = indicators.some(key => (settings[key]?.kind ?? 'none') !== 'none');
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-100">Transformations</h2>
+        {hasTransforms && (
+          <button
+            onClick={() => onChange({})}
+            className="text-xs text-blue-400 hover:text-blue-300 focus:outline-none"
+          >
+            Reset all
+          </button>
+        )}
+      </div>
+      {indicators.length === 0 && (
+        <p className="text-sm text-gray-400">Select indicators to transform them.</p>
+      )}
+      <div className="space-y-3">
+        {indicators.map(key => {
+          const indicator = getIndicator(key);
+          const transform = settings[key] ?? { kind: 'none' };
+          const quarterly = indicator.frequency === 'quarterly' && !interpolated;
+          return (
+            <div key={key} className="p-2 rounded-md bg-gray-700/30 space-y-2">
+              <div className="flex items-center space-x-2">
+                <span className="h-3 w-3 rounded-full flex-shrink-0" style={{ backgroundColor: indicator.color }} aria-hidden="true"></span>
+                <span className="text-sm text-gray-300">{indicator.name}</span>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={transform.kind}
+                  onChange={e => update(key, { kind: e.target.value as TransformKind })}
+                  className={selectClassName}
+                  aria-label={`Transformation for ${indicator.name}`}
+                >
+                  {TRANSFORM_OPTIONS.map(option => (
+                    <option key={option.kind} value={option.kind}>{quarterly && option.kind === 'mom' ? 'Quarter-on-quarter change' : option.label}</option>
+                  ))}
+                </select>
+                {transform.kind === 'rebase' && (
+                  <select
+                    value={transform.rebaseMonth ?? ''}
+                    onChange={e => update(key, { ...transform, rebaseMonth: e.target.value || undefined })}
+                    className={selectClassName}
+                    aria-label="Base month"
+                  >
+                    <option value="">First month</option>
+                    {months.map(month => (
+                      <option key={month} value={month}>{month}</option>
+                    ))}
+                  </select>
+                )}
+                {transform.kind === 'rolling' && (
+                  <label className="flex items-center space-x-1 text-xs text-gray-400">
+                    <input
+                      type="number"
+                      min={2}
+                      max={24}
+                      value={transform.window ?? DEFAULT_ROLLING_WINDOW}
+                      onChange={e => update(key, { ...transform, window: Math.min(24, Math.max(2, Number(e.target.value) || DEFAULT_ROLLING_WINDOW)) })}
+                      className={`${selectClassName} w-16`}
+                    />
+                    <span>{quarterly ? 'quarters' : 'months'}</span>
+                  </label>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TransformPanel;
@@ -0,0 +1,46 @@
+
+import React from 'react';
+import { VintageSummary } from '../types';
+import { getIndicatorKeys } from '../lib/indicators';
+
+interface VintagePickerProps {
+  vintages: VintageSummary[];
+  // The id of the vintage being viewed, or null for the latest live data.
+  selectedVintageId: string | null;
+  onSelect: (vintageId: string | null) => void;
+  isDisabled: boolean;
+}
+
+const describeVintage = (vintage: VintageSummary): string => {
+  const date = new Date(vintage.createdAt).toLocaleString();
+  const count = vintage.parameters.indicators.length;
+  const scope = count === getIndicatorKeys().length ? 'all indicators' : `${count} indicator${count === 1 ? '' : 's'}`;
+  return `${date} (${scope}, ${vintage.parameters.provider})`;
+};
+
+const VintagePicker: React.FC<VintagePickerProps> = ({ vintages, selectedVintageId, onSelect, isDisabled }) => {
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+      <label htmlFor="vintage-picker" className="text-gray-400">As of</label>
+      <select
+        id="vintage-picker"
+        value={selectedVintageId ?? ''}
+        onChange={e => onSelect(e.target.value || null)}
+        disabled={isDisabled}
+        className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        <option value="">Latest</option>
+        {vintages.map(vintage => (
+          <option key={vintage.id} value={vintage.id}>{describeVintage(vintage)}</option>
+        ))}
+      </select>
+      {selectedVintageId && (
+        <span className="px-2 py-0.5 rounded-full bg-amber-900/40 border border-amber-600/50 text-amber-300 text-xs">
+          Viewing a historical vintage
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default VintagePicker;
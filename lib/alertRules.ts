@@ -0,0 +1,42 @@
+import type { AlertCondition, AlertRuleDefinition } from '../types';
+import { ALERT_CONDITIONS } from '../types';
+
+export const MAX_CONSECUTIVE_MONTHS = 24;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Validates a raw alert rule, as found in the indicator registry, in localStorage or in a request
+// body. Returns the rule with unknown fields dropped, or the problems that make it unusable.
+export const parseAlertRuleDefinition = (raw: unknown, label: string): { rule?: AlertRuleDefinition; problems: string[] } => {
+  const entry = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const problems: string[] = [];
+  const condition = entry.condition as AlertCondition;
+
+  if (typeof entry.name !== 'string' || entry.name.trim() === '') problems.push(`${label} needs a "name".`);
+  if (!ALERT_CONDITIONS.includes(condition)) {
+    problems.push(`${label} needs a "condition" of ${ALERT_CONDITIONS.join(', ')}.`);
+  } else if (condition === 'outside') {
+    if (!isFiniteNumber(entry.lower) || !isFiniteNumber(entry.upper) || entry.lower > entry.upper) {
+      problems.push(`${label} needs numeric "lower" and "upper" bounds, with lower not above upper.`);
+    }
+  } else if (!isFiniteNumber(entry.value)) {
+    problems.push(`${label} needs a numeric "value".`);
+  }
+  const consecutiveMonths = entry.consecutiveMonths;
+  if (consecutiveMonths !== undefined && (!Number.isInteger(consecutiveMonths) || (consecutiveMonths as number) < 1 || (consecutiveMonths as number) > MAX_CONSECUTIVE_MONTHS)) {
+    problems.push(`${label} needs "consecutiveMonths" to be a whole number from 1 to ${MAX_CONSECUTIVE_MONTHS}.`);
+  }
+  if (problems.length > 0) return { problems };
+
+  return {
+    rule: {
+      name: (entry.name as string).trim(),
+      condition,
+      ...(condition === 'outside'
+        ? { lower: entry.lower as number, upper: entry.upper as number }
+        : { value: entry.value as number }),
+      ...(consecutiveMonths !== undefined ? { consecutiveMonths: consecutiveMonths as number } : {}),
+    },
+    problems,
+  };
+};
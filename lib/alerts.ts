@@ -0,0 +1,104 @@
+import type { AlertBreach, AlertResult, AlertRule, EconomicIndicator, IndicatorKey, IndicatorValue } from '../types';
+import { formatValue } from './format';
+import { getIndicator, getIndicators, getValue, isIndicatorKey } from './indicators';
+import { parseAlertRuleDefinition } from './alertRules';
+import { createClientId } from './ids';
+
+// The rules declared in the indicator registry, optionally limited to some indicators.
+export const getRegistryAlertRules = (indicators?: IndicatorKey[]): AlertRule[] => {
+  return getIndicators()
+    .filter(indicator => !indicators || indicators.includes(indicator.key))
+    .flatMap(indicator => (indicator.alertRules ?? []).map((rule, index) => ({ ...rule, id: `${indicator.key}:${index}`, indicator: indicator.key })));
+};
+
+const isBreach = (rule: AlertRule, value: number): boolean => {
+  switch (rule.condition) {
+    case 'above':
+      return value > (rule.value as number);
+    case 'below':
+      return value < (rule.value as number);
+    case 'outside':
+      return value < (rule.lower as number) || value > (rule.upper as number);
+  }
+};
+
+// Describes a rule's condition in words, e.g. "outside 2.00%–4.00% for 3+ consecutive months".
+export const describeAlertRule = (rule: AlertRule): string => {
+  const { unit } = getIndicator(rule.indicator);
+  const condition = rule.condition === 'outside'
+    ? `outside ${formatValue(rule.lower as number, unit)}–${formatValue(rule.upper as number, unit)}`
+    : `${rule.condition} ${formatValue(rule.value as number, unit)}`;
+  const months = rule.consecutiveMonths ?? 1;
+  return months > 1 ? `${condition} for ${months}+ consecutive months` : condition;
+};
+
+// Checks a rule against monthly rows sorted by month. A breach is a run of consecutive months in
+// breach that lasts at least `consecutiveMonths`; a missing value ends the run.
+export const evaluateAlertRule = (rule: AlertRule, data: EconomicIndicator[]): AlertResult => {
+  const minimumMonths = rule.consecutiveMonths ?? 1;
+  const breaches: AlertBreach[] = [];
+  let run: { months: string[]; includesForecast: boolean } | null = null;
+
+  const closeRun = () => {
+    if (run && run.months.length >= minimumMonths) {
+      breaches.push({
+        startMonth: run.months[0],
+        endMonth: run.months[run.months.length - 1],
+        months: run.months.length,
+        includesForecast: run.includesForecast,
+      });
+    }
+    run = null;
+  };
+
+  let latestMonth: string | null = null;
+  let latestValue: IndicatorValue = null;
+  for (const row of data) {
+    const value = getValue(row, rule.indicator);
+    if (value === null) {
+      closeRun();
+      continue;
+    }
+    const isForecast = row.meta?.[rule.indicator]?.status === 'forecast';
+    if (!isForecast) {
+      latestMonth = row.month;
+      latestValue = value;
+    }
+    if (isBreach(rule, value)) {
+      run ??= { months: [], includesForecast: false };
+      run.months.push(row.month);
+      run.includesForecast ||= isForecast;
+    } else {
+      closeRun();
+    }
+  }
+  closeRun();
+
+  return {
+    rule,
+    breaches,
+    latestMonth,
+    latestValue,
+    isActive: latestMonth !== null && breaches.some(breach => breach.startMonth <= latestMonth! && breach.endMonth >= latestMonth!),
+    isForecastBreach: breaches.some(breach => latestMonth === null || breach.endMonth > latestMonth),
+  };
+};
+
+// Evaluates every rule whose indicator is present in the data.
+export const evaluateAlertRules = (rules: AlertRule[], data: EconomicIndicator[]): AlertResult[] => {
+  return rules
+    .filter(rule => data.some(row => getValue(row, rule.indicator) !== null))
+    .map(rule => evaluateAlertRule(rule, data));
+};
+
+// Validates a rule supplied by a user, which also names its indicator. Custom rules get an id
+// of their own when they don't carry one.
+export const parseCustomAlertRule = (raw: unknown, label: string): { rule?: AlertRule; problems: string[] } => {
+  const entry = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const { rule, problems } = parseAlertRuleDefinition(raw, label);
+  if (!isIndicatorKey(entry.indicator)) problems.push(`${label} has an unknown "indicator" ${JSON.stringify(entry.indicator ?? null)}.`);
+  if (!rule || problems.length > 0) return { problems };
+
+  const id = typeof entry.id === 'string' && entry.id !== '' ? entry.id : createClientId('custom');
+  return { rule: { ...rule, id, indicator: entry.indicator as IndicatorKey, isCustom: true }, problems };
+};
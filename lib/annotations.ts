@@ -0,0 +1,80 @@
+import type { Annotation, AnnotationCategory, NewAnnotation } from '../types';
+import { ANNOTATION_CATEGORIES } from '../types';
+
+export const MAX_ANNOTATION_TITLE_LENGTH = 120;
+
+export const ANNOTATION_CATEGORY_LABELS: Record<AnnotationCategory, string> = {
+  policy: 'Monetary policy',
+  weather: 'Weather and disasters',
+  commodity: 'Commodities and oil',
+  release: 'Data releases',
+  other: 'Other',
+};
+
+export const ANNOTATION_CATEGORY_COLORS: Record<AnnotationCategory, string> = {
+  policy: '#a78bfa',
+  weather: '#38bdf8',
+  commodity: '#fb923c',
+  release: '#9ca3af',
+  other: '#f472b6',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Whether a value is a real calendar date in YYYY-MM-DD format.
+export const isValidDate = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+const isWebUrl = (value: string): boolean => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// The month an annotation's marker is drawn at.
+export const getAnnotationMonth = (annotation: Pick<Annotation, 'date'>): string => annotation.date.slice(0, 7);
+
+// Validates the fields of a new annotation, e.g. a request body. An empty URL is left out.
+export const parseNewAnnotation = (raw: unknown, label: string): { annotation?: NewAnnotation; problems: string[] } => {
+  const { date, title, category, url } = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const problems: string[] = [];
+  if (!isValidDate(date)) problems.push(`${label} needs a "date" in YYYY-MM-DD format.`);
+  if (typeof title !== 'string' || title.trim() === '') problems.push(`${label} needs a "title".`);
+  else if (title.trim().length > MAX_ANNOTATION_TITLE_LENGTH) problems.push(`${label} has a "title" longer than ${MAX_ANNOTATION_TITLE_LENGTH} characters.`);
+  if (!ANNOTATION_CATEGORIES.includes(category as AnnotationCategory)) problems.push(`${label} needs a "category" of ${ANNOTATION_CATEGORIES.join(', ')}.`);
+  const trimmedUrl = typeof url === 'string' ? url.trim() : '';
+  if (url !== undefined && url !== null && (typeof url !== 'string' || (trimmedUrl !== '' && !isWebUrl(trimmedUrl)))) {
+    problems.push(`${label} has a "url" that is not an http or https address.`);
+  }
+  if (problems.length > 0) return { problems };
+
+  return {
+    annotation: {
+      date: date as string,
+      title: (title as string).trim(),
+      category: category as AnnotationCategory,
+      ...(trimmedUrl ? { url: trimmedUrl } : {}),
+    },
+    problems,
+  };
+};
+
+// Groups the annotations in the given categories by the month they are drawn at, oldest first
+// within each month.
+export const groupAnnotationsByMonth = (annotations: Annotation[], categories: AnnotationCategory[]): Map<string, Annotation[]> => {
+  const byMonth = new Map<string, Annotation[]>();
+  annotations
+    .filter(annotation => categories.includes(annotation.category))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(annotation => {
+      const month = getAnnotationMonth(annotation);
+      byMonth.set(month, [...(byMonth.get(month) ?? []), annotation]);
+    });
+  return byMonth;
+};
@@ -0,0 +1,166 @@
+import type { DataPointStatus, EconomicIndicator, IndicatorKey, IndicatorProjection, UserSeries } from '../types';
+import { getValue } from './indicators';
+
+// Suffix for the data key holding the forecast segment of an indicator's line.
+export const FORECAST_SUFFIX = '__forecast';
+
+export const forecastKey = (key: IndicatorKey): string => `${key}${FORECAST_SUFFIX}`;
+
+// Suffix for the data key holding an indicator's statistical projection.
+export const PROJECTION_SUFFIX = '__projection';
+
+export const projectionKey = (key: IndicatorKey): string => `${key}${PROJECTION_SUFFIX}`;
+
+export const isProjectionKey = (dataKey: string): boolean => dataKey.endsWith(PROJECTION_SUFFIX);
+
+// Suffix for the data key holding an indicator's path under a what-if scenario.
+export const SCENARIO_SUFFIX = '__scenario';
+
+export const scenarioKey = (key: IndicatorKey): string => `${key}${SCENARIO_SUFFIX}`;
+
+export const isScenarioKey = (dataKey: string): boolean => dataKey.endsWith(SCENARIO_SUFFIX);
+
+// Strips the series suffix from a chart data key, returning the indicator it belongs to.
+export const toIndicatorKey = (dataKey: string): IndicatorKey => {
+  return dataKey.replace(FORECAST_SUFFIX, '').replace(PROJECTION_SUFFIX, '').replace(SCENARIO_SUFFIX, '') as IndicatorKey;
+};
+
+// Suffix for the data key holding an indicator's uncertainty band, as a [min, max] pair.
+export const BAND_SUFFIX = '__band';
+
+export const bandKey = (key: IndicatorKey): string => `${key}${BAND_SUFFIX}`;
+
+// The prediction interval of a projection is a band of its own.
+export const projectionBandKey = (key: IndicatorKey): string => `${projectionKey(key)}${BAND_SUFFIX}`;
+
+export const isBandKey = (dataKey: string): boolean => dataKey.endsWith(BAND_SUFFIX);
+
+// Prefix for the data keys of imported user series, which live alongside the indicators.
+export const USER_SERIES_PREFIX = 'user__';
+
+export const userSeriesKey = (id: string): string => `${USER_SERIES_PREFIX}${id}`;
+
+export const isUserSeriesKey = (dataKey: string): boolean => dataKey.startsWith(USER_SERIES_PREFIX);
+
+export type ChartRow = EconomicIndicator & Record<string, unknown>;
+
+export interface StatusSplit {
+  rows: ChartRow[];
+  // The earliest month holding a forecast for any of the indicators, if any.
+  forecastStartMonth: string | null;
+}
+
+const getStatus = (row: EconomicIndicator, key: IndicatorKey): DataPointStatus | undefined => row.meta?.[key]?.status;
+
+// Splits each indicator into an observed series (actuals, estimates and values of unknown status)
+// and a forecast series, so they can be drawn with different line styles. The forecast series
+// repeats the last observed value so the two segments join up.
+export const splitByStatus = (data: EconomicIndicator[], keys: IndicatorKey[]): StatusSplit => {
+  const rows: ChartRow[] = data.map(row => ({ ...row }));
+  let forecastStartMonth: string | null = null;
+
+  for (const key of keys) {
+    let lastObservedIndex = -1;
+    let hasForecast = false;
+
+    data.forEach((row, index) => {
+      const value = getValue(row, key);
+      if (value === null) return;
+
+      if (getStatus(row, key) === 'forecast') {
+        if (!hasForecast) {
+          hasForecast = true;
+          if (!forecastStartMonth || row.month < forecastStartMonth) forecastStartMonth = row.month;
+          if (lastObservedIndex !== -1) rows[lastObservedIndex][forecastKey(key)] = getValue(data[lastObservedIndex], key);
+        }
+        rows[index][forecastKey(key)] = value;
+        rows[index][key] = null;
+      } else {
+        lastObservedIndex = index;
+      }
+    });
+  }
+
+  return { rows, forecastStartMonth };
+};
+
+// Adds the range of the ensemble runs behind each value, for the indicators that have one.
+// Returns the keys that got a band.
+export const addUncertaintyBands = (rows: ChartRow[], keys: IndicatorKey[]): IndicatorKey[] => {
+  const banded = keys.filter(key => rows.some(row => row.meta?.[key]?.ensemble));
+  for (const row of rows) {
+    for (const key of banded) {
+      const ensemble = row.meta?.[key]?.ensemble;
+      (row as Record<string, unknown>)[bandKey(key)] = ensemble ? [ensemble.min, ensemble.max] : null;
+    }
+  }
+  return banded;
+};
+
+// Adds each projection and its prediction interval to the rows, appending rows for months past
+// the end of the data. Each projection starts from its latest released value so the lines join up.
+export const addProjections = (rows: ChartRow[], projections: IndicatorProjection[]): ChartRow[] => {
+  if (projections.length === 0) return rows;
+  const withProjections: ChartRow[] = rows.map(row => ({ ...row }));
+  const lastMonth = rows[rows.length - 1]?.month;
+  const extraMonths = Array.from(new Set(projections.flatMap(projection => projection.points.map(point => point.month))))
+    .filter(month => !lastMonth || month > lastMonth)
+    .sort();
+  withProjections.push(...extraMonths.map(month => ({ month } as ChartRow)));
+
+  for (const projection of projections) {
+    const { indicator } = projection;
+    const pointsByMonth = new Map(projection.points.map(point => [point.month, point]));
+    for (const row of withProjections) {
+      const point = pointsByMonth.get(row.month);
+      const target = row as Record<string, unknown>;
+      if (row.month === projection.baseMonth) {
+        target[projectionKey(indicator)] = projection.baseValue;
+        target[projectionBandKey(indicator)] = [projection.baseValue, projection.baseValue];
+      } else {
+        target[projectionKey(indicator)] = point ? point.value : null;
+        target[projectionBandKey(indicator)] = point ? [point.lower, point.upper] : null;
+      }
+    }
+  }
+  return withProjections;
+};
+
+// Adds each indicator's scenario path where it departs from the baseline, with the baseline values
+// of the months either side so the paths join up. Returns the keys the scenario moves.
+export const addScenario = (rows: ChartRow[], baseline: EconomicIndicator[], scenario: EconomicIndicator[], keys: IndicatorKey[]): IndicatorKey[] => {
+  const baselineByMonth = new Map(baseline.map(row => [row.month, row]));
+  const scenarioByMonth = new Map(scenario.map(row => [row.month, row]));
+  const isChanged = (month: string | undefined, key: IndicatorKey): boolean => {
+    const before = month ? baselineByMonth.get(month) : undefined;
+    const after = month ? scenarioByMonth.get(month) : undefined;
+    return !!before && !!after && getValue(after, key) !== getValue(before, key);
+  };
+
+  const moved = keys.filter(key => baseline.some(row => isChanged(row.month, key)));
+  rows.forEach((row, index) => {
+    for (const key of moved) {
+      const target = row as Record<string, unknown>;
+      if (isChanged(row.month, key)) target[scenarioKey(key)] = getValue(scenarioByMonth.get(row.month)!, key);
+      else if (isChanged(rows[index - 1]?.month, key) || isChanged(rows[index + 1]?.month, key)) {
+        target[scenarioKey(key)] = getValue(baselineByMonth.get(row.month) ?? row, key);
+      }
+      else target[scenarioKey(key)] = null;
+    }
+  });
+  return moved;
+};
+
+// Adds each user series' values to the rows of matching months. Months outside the loaded range
+// are not charted.
+export const addUserSeries = (rows: ChartRow[], series: UserSeries[]): ChartRow[] => {
+  if (series.length === 0) return rows;
+  const valuesByMonth = series.map(entry => new Map(entry.points.map(point => [point.month, point.value])));
+  return rows.map(row => {
+    const withSeries: ChartRow = { ...row };
+    series.forEach((entry, index) => {
+      withSeries[userSeriesKey(entry.id)] = valuesByMonth[index].get(row.month) ?? null;
+    });
+    return withSeries;
+  });
+};
@@ -0,0 +1,138 @@
+import type { EconomicIndicator, IndicatorKey } from '../types';
+import { addMonths } from './months';
+import { getValue } from './indicators';
+
+// The fewest paired months a correlation is reported for.
+export const MIN_PAIRS = 6;
+export const DEFAULT_MAX_LAG = 12;
+
+export interface Correlation {
+  // Pearson's coefficient, from -1 to 1.
+  r: number;
+  // Months paired.
+  n: number;
+}
+
+export interface LaggedCorrelation {
+  // Months by which the first indicator leads the second; negative when it lags.
+  lag: number;
+  r: number | null;
+  n: number;
+}
+
+export interface PairedValue {
+  // The month of the second indicator's value.
+  month: string;
+  x: number;
+  y: number;
+}
+
+export interface Regression {
+  slope: number;
+  intercept: number;
+  r2: number;
+  n: number;
+}
+
+export interface PairOptions {
+  // Pairs the first indicator's value with the second's this many months later.
+  lag?: number;
+  // Forecasts are left out unless asked for, so only released figures are compared.
+  includeForecasts?: boolean;
+}
+
+const valuesByMonth = (data: EconomicIndicator[], key: IndicatorKey, includeForecasts: boolean): Map<string, number> => {
+  const values = new Map<string, number>();
+  for (const row of data) {
+    const value = getValue(row, key);
+    if (value === null || (!includeForecasts && row.meta?.[key]?.status === 'forecast')) continue;
+    values.set(row.month, value);
+  }
+  return values;
+};
+
+// Pairs the months in which both indicators have a value, shifting the first by `lag` months.
+export const pairValues = (data: EconomicIndicator[], xKey: IndicatorKey, yKey: IndicatorKey, options: PairOptions = {}): PairedValue[] => {
+  const { lag = 0, includeForecasts = false } = options;
+  const xValues = valuesByMonth(data, xKey, includeForecasts);
+  const pairs: PairedValue[] = [];
+  valuesByMonth(data, yKey, includeForecasts).forEach((y, month) => {
+    const x = xValues.get(addMonths(month, -lag));
+    if (x !== undefined) pairs.push({ month, x, y });
+  });
+  return pairs;
+};
+
+// Pearson's correlation of the pairs, or null when there are too few of them or either side
+// never changes.
+export const correlate = (pairs: PairedValue[]): Correlation | null => {
+  const n = pairs.length;
+  if (n < MIN_PAIRS) return null;
+  const meanX = pairs.reduce((sum, pair) => sum + pair.x, 0) / n;
+  const meanY = pairs.reduce((sum, pair) => sum + pair.y, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (const { x, y } of pairs) {
+    sxy += (x - meanX) * (y - meanY);
+    sxx += (x - meanX) ** 2;
+    syy += (y - meanY) ** 2;
+  }
+  if (sxx === 0 || syy === 0) return null;
+  return { r: sxy / Math.sqrt(sxx * syy), n };
+};
+
+// Correlates every pair of indicators in the same month. The matrix is symmetric, with 1 on the
+// diagonal for any indicator that varies.
+export const correlationMatrix = (data: EconomicIndicator[], keys: IndicatorKey[], includeForecasts = false): (Correlation | null)[][] => {
+  const matrix: (Correlation | null)[][] = keys.map(() => keys.map(() => null));
+  keys.forEach((xKey, row) => {
+    keys.forEach((yKey, column) => {
+      if (column < row) return;
+      const correlation = correlate(pairValues(data, xKey, yKey, { includeForecasts }));
+      matrix[row][column] = correlation;
+      matrix[column][row] = correlation;
+    });
+  });
+  return matrix;
+};
+
+// Correlates the first indicator with the second at every lag from -maxLag to maxLag months.
+export const crossCorrelation = (
+  data: EconomicIndicator[],
+  xKey: IndicatorKey,
+  yKey: IndicatorKey,
+  maxLag: number = DEFAULT_MAX_LAG,
+  includeForecasts = false,
+): LaggedCorrelation[] => {
+  const correlations: LaggedCorrelation[] = [];
+  for (let lag = -maxLag; lag <= maxLag; lag++) {
+    const pairs = pairValues(data, xKey, yKey, { lag, includeForecasts });
+    correlations.push({ lag, r: correlate(pairs)?.r ?? null, n: pairs.length });
+  }
+  return correlations;
+};
+
+// The lag with the largest absolute correlation; ties go to the shortest lag.
+export const strongestLag = (correlations: LaggedCorrelation[]): LaggedCorrelation | null => {
+  return correlations.reduce<LaggedCorrelation | null>((best, candidate) => {
+    if (candidate.r === null) return best;
+    if (!best || Math.abs(candidate.r) > Math.abs(best.r!) || (Math.abs(candidate.r) === Math.abs(best.r!) && Math.abs(candidate.lag) < Math.abs(best.lag))) {
+      return candidate;
+    }
+    return best;
+  }, null);
+};
+
+// Ordinary least squares fit of y on x.
+export const linearRegression = (pairs: PairedValue[]): Regression | null => {
+  const correlation = correlate(pairs);
+  if (!correlation) return null;
+  const n = pairs.length;
+  const meanX = pairs.reduce((sum, pair) => sum + pair.x, 0) / n;
+  const meanY = pairs.reduce((sum, pair) => sum + pair.y, 0) / n;
+  const sxx = pairs.reduce((sum, pair) => sum + (pair.x - meanX) ** 2, 0);
+  const sxy = pairs.reduce((sum, pair) => sum + (pair.x - meanX) * (pair.y - meanY), 0);
+  const slope = sxy / sxx;
+  return { slope, intercept: meanY - slope * meanX, r2: correlation.r ** 2, n };
+};
@@ -0,0 +1,79 @@
+import type { DataPointMeta, DataPointStatus, EconomicIndicator, EnsembleStats, IndicatorKey } from '../types';
+import { DATA_POINT_STATUSES } from '../types';
+import { getValue } from './indicators';
+
+export const MAX_ENSEMBLE_RUNS = 5;
+
+// Values within this share of the median (or 0.05, for values near zero) agree with it.
+const AGREEMENT_TOLERANCE = 0.05;
+const MIN_TOLERANCE = 0.05;
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// The most common status; ties go to the one listed first (actual before estimate before forecast).
+const mostCommonStatus = (statuses: DataPointStatus[]): DataPointStatus | undefined => {
+  return [...DATA_POINT_STATUSES].sort((a, b) => statuses.filter(s => s === b).length - statuses.filter(s => s === a).length)
+    .find(status => statuses.includes(status));
+};
+
+export const computeEnsembleStats = (values: number[], runs: number): EnsembleStats => {
+  const mid = median(values);
+  const tolerance = Math.max(Math.abs(mid) * AGREEMENT_TOLERANCE, MIN_TOLERANCE);
+  const agreeing = values.filter(value => Math.abs(value - mid) <= tolerance).length;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return { runs, count: values.length, median: round(mid), min, max, spread: round(max - min), confidence: round(agreeing / runs) };
+};
+
+// Combines validated rows from several runs of the same request into one consensus row per month.
+// Each value is the median of the runs that produced it, with its agreement kept in the metadata.
+export const combineRuns = (runs: EconomicIndicator[][], keys: IndicatorKey[], runCount: number = runs.length): EconomicIndicator[] => {
+  const months = Array.from(new Set(runs.flatMap(rows => rows.map(row => row.month)))).sort();
+  const byMonth = runs.map(rows => new Map(rows.map(row => [row.month, row])));
+
+  return months.map(month => {
+    const row: EconomicIndicator = { month };
+    const meta: Partial<Record<IndicatorKey, DataPointMeta>> = {};
+    for (const key of keys) {
+      const cells = byMonth
+        .map(rows => rows.get(month))
+        .filter((cell): cell is EconomicIndicator => cell !== undefined && getValue(cell, key) !== null);
+      if (cells.length === 0) {
+        row[key] = null;
+        continue;
+      }
+      const stats = computeEnsembleStats(cells.map(cell => getValue(cell, key)!), runCount);
+      row[key] = stats.median;
+      const status = mostCommonStatus(cells.map(cell => cell.meta?.[key]?.status).filter((s): s is DataPointStatus => s !== undefined));
+      // The source of the run closest to the consensus.
+      const closest = [...cells].sort((a, b) => Math.abs(getValue(a, key)! - stats.median) - Math.abs(getValue(b, key)! - stats.median))[0];
+      const sourceUri = closest.meta?.[key]?.sourceUri;
+      meta[key] = { ...(status ? { status } : {}), ...(sourceUri ? { sourceUri } : {}), ensemble: stats };
+    }
+    if (Object.keys(meta).length > 0) row.meta = meta;
+    return row;
+  });
+};
+
+// Drops the ensemble statistics of some indicators, e.g. once their values have been transformed
+// and no longer match the spread.
+export const stripEnsemble = (data: EconomicIndicator[], keys: IndicatorKey[]): EconomicIndicator[] => {
+  if (keys.length === 0) return data;
+  return data.map(row => {
+    if (!row.meta || !keys.some(key => row.meta?.[key]?.ensemble)) return row;
+    const meta = { ...row.meta };
+    for (const key of keys) {
+      if (meta[key]?.ensemble) {
+        const { ensemble, ...rest } = meta[key]!;
+        meta[key] = rest;
+      }
+    }
+    return { ...row, meta };
+  });
+};
@@ -0,0 +1,11 @@
+import type { ExportTable } from './table';
+
+const quote = (value: string): string => `"${value.replace(/"/g, '""')}"`;
+
+// Writes a header row of indicator names, a row of units, then one row per month.
+export const toCsv = (table: ExportTable): string => {
+  const headers = ['Month', ...table.columns.map(column => quote(column.name))].join(',');
+  const units = ['Unit', ...table.columns.map(column => quote(column.unit))].join(',');
+  const rows = table.rows.map(row => [quote(row.month), ...row.values.map(value => value ?? '')].join(','));
+  return [headers, units, ...rows].join('\n');
+};
@@ -0,0 +1,118 @@
+import { concatBytes } from './zip';
+
+// A minimal single-page PDF writer: standard Helvetica text plus one embedded JPEG image.
+// Standard fonts only cover WinAnsi, so text is reduced to printable ASCII.
+
+export interface PdfImage {
+  // Raw JPEG bytes.
+  jpeg: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface ReportContent {
+  title: string;
+  subtitle: string;
+  image: PdfImage | null;
+  // Lines listed beside the chart, e.g. latest values.
+  summaryHeading: string;
+  summaryLines: string[];
+  sourcesHeading: string;
+  sourceLines: string[];
+}
+
+// A4 landscape, in points.
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+
+const toPdfText = (value: string): string =>
+  value
+    .replace(/₱/g, 'PHP ')
+    .replace(/[−–—]/g, '-')
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/([\\()])/g, '\\$1');
+
+const truncate = (value: string, maxLength: number): string =>
+  value.length > maxLength ? `${value.slice(0, maxLength - 3)}...` : value;
+
+const text = (x: number, y: number, size: number, value: string, bold = false): string =>
+  `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x} ${y} Td (${toPdfText(value)}) Tj ET`;
+
+export const createReportPdf = (content: ReportContent): Uint8Array => {
+  const commands: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN - 18;
+  commands.push(text(MARGIN, y, 18, content.title, true));
+  y -= 16;
+  commands.push(text(MARGIN, y, 10, content.subtitle));
+
+  // Chart on the left two-thirds, summary on the right.
+  const chartTop = y - 14;
+  const chartWidth = (PAGE_WIDTH - MARGIN * 2) * 0.66;
+  let chartHeight = 0;
+  if (content.image) {
+    chartHeight = Math.min(chartWidth * (content.image.height / content.image.width), 330);
+    const drawWidth = chartHeight * (content.image.width / content.image.height);
+    commands.push(`q ${drawWidth.toFixed(2)} 0 0 ${chartHeight.toFixed(2)} ${MARGIN} ${(chartTop - chartHeight).toFixed(2)} cm /Im1 Do Q`);
+  }
+
+  const summaryX = MARGIN + chartWidth + 18;
+  let summaryY = chartTop - 12;
+  commands.push(text(summaryX, summaryY, 12, content.summaryHeading, true));
+  for (const line of content.summaryLines) {
+    summaryY -= 14;
+    if (summaryY < MARGIN) break;
+    commands.push(text(summaryX, summaryY, 9, truncate(line, 48)));
+  }
+
+  let sourcesY = chartTop - chartHeight - 24;
+  commands.push(text(MARGIN, sourcesY, 12, content.sourcesHeading, true));
+  for (const line of content.sourceLines) {
+    sourcesY -= 12;
+    if (sourcesY < MARGIN) break;
+    commands.push(text(MARGIN, sourcesY, 8, truncate(line, 160)));
+  }
+
+  const encoder = new TextEncoder();
+  const stream = commands.join('\n');
+  const objects: Uint8Array[][] = [
+    [encoder.encode('<< /Type /Catalog /Pages 2 0 R >>')],
+    [encoder.encode('<< /Type /Pages /Kids [3 0 R] /Count 1 >>')],
+    [encoder.encode(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >>${content.image ? ' /XObject << /Im1 6 0 R >>' : ''} >> /Contents 7 0 R >>`)],
+    [encoder.encode('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')],
+    [encoder.encode('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')],
+    content.image
+      ? [
+          encoder.encode(`<< /Type /XObject /Subtype /Image /Width ${content.image.width} /Height ${content.image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${content.image.jpeg.length} >>\nstream\n`),
+          content.image.jpeg,
+          encoder.encode('\nendstream'),
+        ]
+      : [encoder.encode('null')],
+    [encoder.encode(`<< /Length ${encoder.encode(stream).length} >>\nstream\n${stream}\nendstream`)],
+  ];
+
+  const parts: Uint8Array[] = [encoder.encode('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')];
+  let offset = parts[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(offset);
+    const chunk = concatBytes([encoder.encode(`${index + 1} 0 obj\n`), ...body, encoder.encode('\nendobj\n')]);
+    parts.push(chunk);
+    offset += chunk.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(value => `${String(value).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+  ].join('\n');
+  parts.push(encoder.encode(`${xref}\n`));
+
+  return concatBytes(parts);
+};
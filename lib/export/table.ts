@@ -0,0 +1,40 @@
+import type { EconomicIndicator, IndicatorKey, IndicatorMetadata, IndicatorValue, Source } from '../../types';
+import { getValue } from '../indicators';
+
+export interface ExportColumn {
+  key: IndicatorKey;
+  name: string;
+  unit: string;
+}
+
+// A format-neutral snapshot of what the dashboard is showing, shared by every export format.
+export interface ExportTable {
+  columns: ExportColumn[];
+  rows: { month: string; values: IndicatorValue[] }[];
+  sources: Source[];
+  fetchedAt: string | null;
+}
+
+export const buildExportTable = (
+  data: EconomicIndicator[],
+  keys: IndicatorKey[],
+  metadata: Partial<Record<IndicatorKey, IndicatorMetadata>>,
+  sources: Source[],
+  fetchedAt: string | null,
+): ExportTable => ({
+  columns: keys.map(key => ({ key, name: metadata[key]?.name ?? key, unit: metadata[key]?.unit ?? '' })),
+  rows: data.map(row => ({ month: row.month, values: keys.map(key => getValue(row, key)) })),
+  sources,
+  fetchedAt,
+});
+
+// The most recent non-null value of each column, used for report summaries.
+export const getLatestValues = (table: ExportTable): { column: ExportColumn; month: string; value: number }[] => {
+  return table.columns.flatMap((column, index) => {
+    for (let i = table.rows.length - 1; i >= 0; i--) {
+      const value = table.rows[i].values[index];
+      if (value !== null) return [{ column, month: table.rows[i].month, value }];
+    }
+    return [];
+  });
+};
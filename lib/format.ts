@@ -0,0 +1,12 @@
+// Currency units are written before the value; everything else (e.g. %) after it.
+const PREFIX_UNITS = ['$', '₱'];
+
+export const formatValue = (value: number, unit: string, digits: number = 2): string => {
+  return PREFIX_UNITS.includes(unit) ? `${unit}${value.toFixed(digits)}` : `${value.toFixed(digits)}${unit}`;
+};
+
+// Formats a change in value, always showing its sign.
+export const formatDelta = (delta: number, unit: string, digits: number = 2): string => {
+  const sign = delta > 0 ? '+' : delta < 0 ? '−' : '±';
+  return `${sign}${formatValue(Math.abs(delta), unit, digits)}`;
+};
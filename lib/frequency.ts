@@ -0,0 +1,134 @@
+import type { EconomicIndicator, IndicatorKey, SeriesObservation } from '../types';
+import { addMonths } from './months';
+import { getIndicator, getValue } from './indicators';
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+export const toQuarter = (month: string): string => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return `${year}-Q${Math.ceil(monthNumber / 3)}`;
+};
+
+// The first and last month of the quarter containing `month`.
+export const quarterBounds = (month: string): { startMonth: string; endMonth: string } => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const startMonth = `${year}-${String((Math.ceil(monthNumber / 3) - 1) * 3 + 1).padStart(2, '0')}`;
+  return { startMonth, endMonth: addMonths(startMonth, 2) };
+};
+
+// Formats a period label for display, e.g. "2025-Q1" becomes "Q1 2025".
+export const formatQuarter = (month: string): string => {
+  const [year, quarter] = toQuarter(month).split('-');
+  return `${quarter} ${year}`;
+};
+
+// Collapses an indicator's monthly rows to its native frequency. Quarterly series yield one
+// observation per quarter (the latest month reported within it); event series yield one
+// observation per change in value, spanning until the next change.
+export const toNativeSeries = (data: EconomicIndicator[], key: IndicatorKey): SeriesObservation[] => {
+  const rows = data.filter(row => getValue(row, key) !== null);
+  const observe = (row: EconomicIndicator, period: string, startMonth: string, endMonth: string): SeriesObservation => {
+    const status = row.meta?.[key]?.status;
+    return { period, startMonth, endMonth, value: getValue(row, key) as number, ...(status ? { status } : {}) };
+  };
+
+  switch (getIndicator(key).frequency) {
+    case 'quarterly': {
+      const byQuarter = new Map<string, SeriesObservation>();
+      for (const row of rows) {
+        const { startMonth, endMonth } = quarterBounds(row.month);
+        byQuarter.set(toQuarter(row.month), observe(row, toQuarter(row.month), startMonth, endMonth));
+      }
+      return Array.from(byQuarter.values());
+    }
+    case 'event': {
+      const events: SeriesObservation[] = [];
+      for (const row of rows) {
+        const previous = events[events.length - 1];
+        if (previous && previous.value === getValue(row, key)) {
+          previous.endMonth = row.month;
+        } else {
+          events.push(observe(row, row.month, row.month, row.month));
+        }
+      }
+      return events;
+    }
+    default:
+      return rows.map(row => observe(row, row.month, row.month, row.month));
+  }
+};
+
+// Builds the native series for every requested indicator.
+export const buildNativeSeries = (data: EconomicIndicator[], keys: IndicatorKey[]): Partial<Record<IndicatorKey, SeriesObservation[]>> => {
+  const series: Partial<Record<IndicatorKey, SeriesObservation[]>> = {};
+  keys.forEach(key => {
+    series[key] = toNativeSeries(data, key);
+  });
+  return series;
+};
+
+// Spreads each quarterly value over every month of its quarter, so the monthly rows describe
+// the period a value covers rather than a single point. No values are invented across quarters.
+export const fillQuarterlyPeriods = (data: EconomicIndicator[], keys: IndicatorKey[]): EconomicIndicator[] => {
+  const quarterlyKeys = keys.filter(key => getIndicator(key).frequency === 'quarterly');
+  if (quarterlyKeys.length === 0) return data;
+
+  const rows = data.map(row => ({ ...row }));
+  for (const key of quarterlyKeys) {
+    const byQuarter = new Map(toNativeSeries(data, key).map(observation => [observation.period, observation]));
+    rows.forEach(row => {
+      const observation = byQuarter.get(toQuarter(row.month));
+      if (!observation) return;
+      row[key] = observation.value;
+      if (observation.status) row.meta = { ...row.meta, [key]: { ...row.meta?.[key], status: observation.status } };
+    });
+  }
+  return rows;
+};
+
+// Keeps each quarterly value only at the latest month of its quarter that has one, undoing
+// fillQuarterlyPeriods so that statistics count every quarter once rather than once per month.
+export const thinQuarterlyPeriods = (data: EconomicIndicator[], keys: IndicatorKey[]): EconomicIndicator[] => {
+  const quarterlyKeys = keys.filter(key => getIndicator(key).frequency === 'quarterly');
+  if (quarterlyKeys.length === 0) return data;
+
+  const rows = data.map(row => ({ ...row }));
+  for (const key of quarterlyKeys) {
+    const lastMonths = new Map(rows.filter(row => getValue(row, key) !== null).map(row => [toQuarter(row.month), row.month]));
+    rows.forEach(row => {
+      if (lastMonths.get(toQuarter(row.month)) !== row.month) row[key] = null;
+    });
+  }
+  return rows;
+};
+
+// Linearly interpolates quarterly series between quarter midpoints. This is only ever applied on
+// request, and callers should label the result as interpolated.
+export const interpolateQuarterly = (data: EconomicIndicator[], keys: IndicatorKey[]): EconomicIndicator[] => {
+  const quarterlyKeys = keys.filter(key => getIndicator(key).frequency === 'quarterly');
+  if (quarterlyKeys.length === 0) return data;
+
+  const rows = data.map(row => ({ ...row }));
+  const monthIndex = new Map(data.map((row, index) => [row.month, index]));
+
+  for (const key of quarterlyKeys) {
+    // Anchor each quarter's value on its middle month.
+    const anchors = toNativeSeries(data, key)
+      .map(observation => ({ index: monthIndex.get(addMonths(observation.startMonth, 1)), value: observation.value }))
+      .filter((anchor): anchor is { index: number; value: number } => anchor.index !== undefined);
+
+    rows.forEach(row => {
+      row[key] = null;
+    });
+    anchors.forEach((anchor, i) => {
+      rows[anchor.index][key] = anchor.value;
+      const next = anchors[i + 1];
+      if (!next) return;
+      for (let index = anchor.index + 1; index < next.index; index++) {
+        const weight = (index - anchor.index) / (next.index - anchor.index);
+        rows[index][key] = round(anchor.value + (next.value - anchor.value) * weight);
+      }
+    });
+  }
+  return rows;
+};
@@ -0,0 +1,6 @@
+// Creates an id for something made in the browser, such as a custom alert rule or a scenario,
+// e.g. "scenario:lq2x7k1c-4f9a2b". Ids are unique enough for one user's saved items, not globally.
+export const createClientId = (prefix?: string): string => {
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  return prefix ? `${prefix}:${id}` : id;
+};
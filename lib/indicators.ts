@@ -0,0 +1,189 @@
+import type { AlertRuleDefinition, ConsistencyRule, EconomicIndicator, IndicatorConfig, IndicatorDefinition, IndicatorKey, IndicatorValue, PlausibilityLimits, PolicyCorridorConfig } from '../types';
+import { INDICATOR_FREQUENCIES } from '../types';
+import defaultConfig from '../config/indicators.json';
+import { parseAlertRuleDefinition } from './alertRules';
+
+// Keys become JSON fields and chart data keys, so they are restricted to letters and digits.
+const KEY_PATTERN = /^[A-Za-z][A-Za-z0-9]*$/;
+const RESERVED_KEYS = ['month', 'meta'];
+const COLOR_PATTERN = /^#(?:[0-9a-f]{3}){1,2}$/i;
+const FALLBACK_COLOR = '#9ca3af';
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const parsePlausibility = (raw: unknown, label: string, problems: string[]): PlausibilityLimits | undefined => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    problems.push(`${label} has "plausibility" that is not an object.`);
+    return undefined;
+  }
+  const { min, max, maxChange } = raw as Record<string, unknown>;
+  const before = problems.length;
+  if (min !== undefined && !isFiniteNumber(min)) problems.push(`${label} has a non-numeric plausibility "min".`);
+  if (max !== undefined && !isFiniteNumber(max)) problems.push(`${label} has a non-numeric plausibility "max".`);
+  if (isFiniteNumber(min) && isFiniteNumber(max) && min > max) problems.push(`${label} has a plausibility "min" above its "max".`);
+  if (maxChange !== undefined && (!isFiniteNumber(maxChange) || maxChange <= 0)) problems.push(`${label} needs a positive plausibility "maxChange".`);
+  if (problems.length > before) return undefined;
+  return {
+    ...(min !== undefined ? { min: min as number } : {}),
+    ...(max !== undefined ? { max: max as number } : {}),
+    ...(maxChange !== undefined ? { maxChange: maxChange as number } : {}),
+  };
+};
+
+// Validates a raw registry config, throwing an error that lists every problem found. Unknown
+// fields are dropped.
+export const parseIndicatorConfig = (raw: unknown): IndicatorConfig => {
+  const problems: string[] = [];
+  const record = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  if (!Array.isArray(record.groups)) problems.push('"groups" must be an array.');
+  if (!Array.isArray(record.indicators)) problems.push('"indicators" must be an array.');
+  if (problems.length > 0) throw new Error(`Invalid indicator config: ${problems.join(' ')}`);
+
+  const groups: IndicatorConfig['groups'] = [];
+  (record.groups as unknown[]).forEach((group, index) => {
+    const { key, name } = (group ?? {}) as Record<string, unknown>;
+    if (!isNonEmptyString(key) || !isNonEmptyString(name)) {
+      problems.push(`Group ${index + 1} needs a "key" and a "name".`);
+    } else if (groups.some(existing => existing.key === key)) {
+      problems.push(`Group "${key}" is declared more than once.`);
+    } else {
+      groups.push({ key, name });
+    }
+  });
+
+  const indicators: IndicatorDefinition[] = [];
+  (record.indicators as unknown[]).forEach((indicator, index) => {
+    const entry = (indicator ?? {}) as Record<string, unknown>;
+    const label = isNonEmptyString(entry.key) ? `Indicator "${entry.key}"` : `Indicator ${index + 1}`;
+    const before = problems.length;
+
+    if (!isNonEmptyString(entry.key) || !KEY_PATTERN.test(entry.key) || RESERVED_KEYS.includes(entry.key)) {
+      problems.push(`${label} needs a "key" of letters and digits, other than ${RESERVED_KEYS.join(' or ')}.`);
+    } else if (indicators.some(existing => existing.key === entry.key)) {
+      problems.push(`${label} is declared more than once.`);
+    }
+    if (!isNonEmptyString(entry.name)) problems.push(`${label} needs a "name".`);
+    if (!groups.some(group => group.key === entry.group)) problems.push(`${label} has an unknown group ${JSON.stringify(entry.group)}.`);
+    if (!INDICATOR_FREQUENCIES.includes(entry.frequency as IndicatorDefinition['frequency'])) {
+      problems.push(`${label} needs a "frequency" of ${INDICATOR_FREQUENCIES.join(', ')}.`);
+    }
+    if (typeof entry.color !== 'string' || !COLOR_PATTERN.test(entry.color)) problems.push(`${label} needs a hex "color".`);
+    if (typeof entry.unit !== 'string') problems.push(`${label} needs a "unit" (use "" for an index).`);
+    if (entry.threshold !== undefined && (typeof entry.threshold !== 'number' || !Number.isFinite(entry.threshold))) {
+      problems.push(`${label} has a non-numeric "threshold".`);
+    }
+    if (entry.thresholdDescription !== undefined && typeof entry.thresholdDescription !== 'string') {
+      problems.push(`${label} has a non-text "thresholdDescription".`);
+    }
+    if (entry.searchHints !== undefined && !isStringArray(entry.searchHints)) problems.push(`${label} has "searchHints" that are not a list of text.`);
+    if (entry.preferredSources !== undefined && !isStringArray(entry.preferredSources)) problems.push(`${label} has "preferredSources" that are not a list of text.`);
+    if (entry.alertRules !== undefined && !Array.isArray(entry.alertRules)) problems.push(`${label} has "alertRules" that are not a list.`);
+    const alertRules = Array.isArray(entry.alertRules) ? entry.alertRules.map((rule, ruleIndex) => {
+      const parsed = parseAlertRuleDefinition(rule, `${label} alert rule ${ruleIndex + 1}`);
+      problems.push(...parsed.problems);
+      return parsed.rule;
+    }) : [];
+    const plausibility = entry.plausibility !== undefined ? parsePlausibility(entry.plausibility, label, problems) : undefined;
+    if (problems.length > before) return;
+
+    indicators.push({
+      key: entry.key as string,
+      name: entry.name as string,
+      group: entry.group as string,
+      frequency: entry.frequency as IndicatorDefinition['frequency'],
+      color: entry.color as string,
+      unit: entry.unit as string,
+      ...(entry.threshold !== undefined ? { threshold: entry.threshold as number } : {}),
+      ...(entry.thresholdDescription !== undefined ? { thresholdDescription: entry.thresholdDescription as string } : {}),
+      ...(entry.searchHints !== undefined ? { searchHints: entry.searchHints as string[] } : {}),
+      ...(entry.preferredSources !== undefined ? { preferredSources: entry.preferredSources as string[] } : {}),
+      ...(alertRules.length > 0 ? { alertRules: alertRules as AlertRuleDefinition[] } : {}),
+      ...(plausibility ? { plausibility } : {}),
+    });
+  });
+
+  if (record.consistencyRules !== undefined && !Array.isArray(record.consistencyRules)) problems.push('"consistencyRules" must be an array.');
+  const consistencyRules: ConsistencyRule[] = [];
+  (Array.isArray(record.consistencyRules) ? record.consistencyRules : []).forEach((rule, index) => {
+    const { name, lower, upper } = (rule ?? {}) as Record<string, unknown>;
+    const label = `Consistency rule ${index + 1}`;
+    const isKnown = (key: unknown) => indicators.some(indicator => indicator.key === key);
+    if (!isNonEmptyString(name)) {
+      problems.push(`${label} needs a "name".`);
+    } else if (!isKnown(lower) || !isKnown(upper) || lower === upper) {
+      problems.push(`${label} needs "lower" and "upper" to be two different declared indicators.`);
+    } else {
+      consistencyRules.push({ name, lower: lower as string, upper: upper as string });
+    }
+  });
+
+  let policyCorridor: PolicyCorridorConfig | undefined;
+  if (record.policyCorridor !== undefined) {
+    const corridor = (record.policyCorridor && typeof record.policyCorridor === 'object' ? record.policyCorridor : {}) as Record<string, unknown>;
+    const isKnown = (key: unknown) => indicators.some(indicator => indicator.key === key);
+    const before = problems.length;
+    for (const role of ['policyRate', 'floor', 'ceiling']) {
+      if (!isKnown(corridor[role])) problems.push(`"policyCorridor" needs a declared indicator as its "${role}".`);
+    }
+    for (const role of ['lendingRate', 'inflation']) {
+      if (corridor[role] !== undefined && !isKnown(corridor[role])) problems.push(`"policyCorridor" has an unknown "${role}" ${JSON.stringify(corridor[role])}.`);
+    }
+    if (problems.length === before) {
+      policyCorridor = {
+        policyRate: corridor.policyRate as string,
+        floor: corridor.floor as string,
+        ceiling: corridor.ceiling as string,
+        ...(corridor.lendingRate !== undefined ? { lendingRate: corridor.lendingRate as string } : {}),
+        ...(corridor.inflation !== undefined ? { inflation: corridor.inflation as string } : {}),
+      };
+    }
+  }
+
+  if (problems.length > 0) throw new Error(`Invalid indicator config: ${problems.join(' ')}`);
+  return {
+    groups,
+    indicators,
+    ...(consistencyRules.length > 0 ? { consistencyRules } : {}),
+    ...(policyCorridor ? { policyCorridor } : {}),
+  };
+};
+
+// The active registry. It starts from the bundled config; the server replaces it with the file
+// named by INDICATORS_FILE and the browser with the registry served by /api/indicators.
+let activeConfig: IndicatorConfig = parseIndicatorConfig(defaultConfig);
+let indicatorsByKey = new Map(activeConfig.indicators.map(indicator => [indicator.key, indicator]));
+
+export const setIndicatorConfig = (config: IndicatorConfig): void => {
+  activeConfig = config;
+  indicatorsByKey = new Map(config.indicators.map(indicator => [indicator.key, indicator]));
+};
+
+export const getIndicatorConfig = (): IndicatorConfig => activeConfig;
+
+export const getIndicators = (): IndicatorDefinition[] => activeConfig.indicators;
+
+export const getIndicatorKeys = (): IndicatorKey[] => activeConfig.indicators.map(indicator => indicator.key);
+
+export const getIndicatorGroups = (): IndicatorConfig['groups'] => activeConfig.groups;
+
+export const getConsistencyRules = (): ConsistencyRule[] => activeConfig.consistencyRules ?? [];
+
+export const getPolicyCorridor = (): PolicyCorridorConfig | null => activeConfig.policyCorridor ?? null;
+
+export const isIndicatorKey = (key: unknown): key is IndicatorKey => typeof key === 'string' && indicatorsByKey.has(key);
+
+// Returns an indicator's definition. Keys that are no longer registered, e.g. in a vintage saved
+// before an indicator was removed, get a neutral placeholder so their data can still be shown.
+export const getIndicator = (key: IndicatorKey): IndicatorDefinition => {
+  return indicatorsByKey.get(key) ?? { key, name: key, group: '', frequency: 'monthly', color: FALLBACK_COLOR, unit: '' };
+};
+
+// Reads an indicator's value from a row, treating anything that isn't a number as missing.
+export const getValue = (row: EconomicIndicator, key: IndicatorKey): IndicatorValue => {
+  const value = row[key];
+  return typeof value === 'number' ? value : null;
+};
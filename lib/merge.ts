@@ -0,0 +1,17 @@
+import type { EconomicIndicator } from '../types';
+
+// Merges rows into an existing set by month, sorted by month. Values and point metadata from the
+// incoming rows win over those already present.
+export const mergeByMonth = (rows: EconomicIndicator[], incoming: EconomicIndicator[]): EconomicIndicator[] => {
+  const byMonth = new Map(rows.map(row => [row.month, row]));
+  for (const row of incoming) {
+    const existing = byMonth.get(row.month);
+    if (!existing) {
+      byMonth.set(row.month, row);
+      continue;
+    }
+    const meta = existing.meta || row.meta ? { ...existing.meta, ...row.meta } : undefined;
+    byMonth.set(row.month, { ...existing, ...row, ...(meta ? { meta } : {}) });
+  }
+  return Array.from(byMonth.values()).sort((a, b) => a.month.localeCompare(b.month));
+};
@@ -0,0 +1,72 @@
+// Helpers for working with YYYY-MM month strings, shared by the API and the UI.
+
+export interface MonthRange {
+  startMonth: string;
+  endMonth: string;
+}
+
+// How far back and ahead of the current month the default range reaches.
+export const DEFAULT_MONTHS_BACK = 24;
+export const DEFAULT_MONTHS_AHEAD = 12;
+// The widest range a single request may cover.
+export const MAX_RANGE_MONTHS = 120;
+
+const MONTH_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+export const isValidMonth = (value: unknown): value is string => typeof value === 'string' && MONTH_PATTERN.test(value);
+
+export const toMonth = (date: Date): string => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+export const addMonths = (month: string, count: number): string => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const index = year * 12 + (monthNumber - 1) + count;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+};
+
+// Number of months from `start` to `end`, inclusive of both.
+export const countMonths = (start: string, end: string): number => {
+  const [startYear, startMonth] = start.split('-').map(Number);
+  const [endYear, endMonth] = end.split('-').map(Number);
+  return (endYear - startYear) * 12 + (endMonth - startMonth) + 1;
+};
+
+// Formats a month for display, e.g. "2025-10" becomes "October 2025".
+export const formatMonthLong = (month: string): string => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber - 1, 1).toLocaleString('en-US', { month: 'long', year: 'numeric' });
+};
+
+export const getDefaultMonthRange = (today: Date = new Date()): MonthRange => {
+  const current = toMonth(today);
+  return {
+    startMonth: addMonths(current, -DEFAULT_MONTHS_BACK),
+    endMonth: addMonths(current, DEFAULT_MONTHS_AHEAD),
+  };
+};
+
+// Resolves optional start/end parameters against the defaults. Returns an error message when the
+// parameters are malformed, reversed, or span more than MAX_RANGE_MONTHS.
+export const resolveMonthRange = (start: unknown, end: unknown, today: Date = new Date()): MonthRange | { error: string } => {
+  const requestedStart = start === undefined ? undefined : isValidMonth(start) ? start : null;
+  const requestedEnd = end === undefined ? undefined : isValidMonth(end) ? end : null;
+  if (requestedStart === null) {
+    return { error: '"start" must be a month in YYYY-MM format.' };
+  }
+  if (requestedEnd === null) {
+    return { error: '"end" must be a month in YYYY-MM format.' };
+  }
+
+  const defaults = getDefaultMonthRange(today);
+  // When only one bound is given, keep the default span anchored to it.
+  const defaultSpan = countMonths(defaults.startMonth, defaults.endMonth) - 1;
+  const startMonth = requestedStart ?? (requestedEnd ? addMonths(requestedEnd, -defaultSpan) : defaults.startMonth);
+  const endMonth = requestedEnd ?? (requestedStart ? addMonths(requestedStart, defaultSpan) : defaults.endMonth);
+
+  if (startMonth > endMonth) {
+    return { error: '"start" must not be after "end".' };
+  }
+  if (countMonths(startMonth, endMonth) > MAX_RANGE_MONTHS) {
+    return { error: `The requested range may not exceed ${MAX_RANGE_MONTHS} months.` };
+  }
+  return { startMonth, endMonth };
+};
@@ -0,0 +1,52 @@
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Four-letter abbreviations that are in common use alongside the three-letter ones.
+const MONTH_ALIASES: Record<string, number> = { sept: 9 };
+
+const formatMonth = (year: number, month: number): string => `${year}-${String(month).padStart(2, '0')}`;
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// Normalizes the month formats that providers and imported files tend to use ("2025-3", "2025/03",
+// "2025-03-01", "2025-03-31T00:00:00Z", "March 2025", "Mar 2025", "Sept 2025") to YYYY-MM.
+// Returns null when the value is not a recognisable month, including dates with an impossible day.
+export const normalizeMonth = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+
+  const numeric = text.match(/^(\d{4})[-/.](\d{1,2})(?:[-/.](\d{1,2})(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?)?$/i);
+  if (numeric) {
+    const year = Number(numeric[1]);
+    const month = Number(numeric[2]);
+    if (month < 1 || month > 12) return null;
+    const day = numeric[3] === undefined ? undefined : Number(numeric[3]);
+    if (day !== undefined && (day < 1 || day > daysInMonth(year, month))) return null;
+    return formatMonth(year, month);
+  }
+
+  const named = text.match(/^([A-Za-z]+)\.?,?\s+(\d{4})$/);
+  if (named) {
+    // Only full names, exact three-letter abbreviations and "Sept" count, so "Junk 2024" is not June.
+    const word = named[1].toLowerCase();
+    const monthIndex = MONTH_NAMES.findIndex(name => name === word || name.slice(0, 3) === word);
+    const month = monthIndex === -1 ? MONTH_ALIASES[word] : monthIndex + 1;
+    return month === undefined ? null : formatMonth(Number(named[2]), month);
+  }
+
+  return null;
+};
+
+// Coerces a raw value to a finite number. Strings such as "6.1%", "₱56.20" or "1,234.5" are
+// accepted; anything else yields undefined so the caller can record it as invalid.
+export const coerceNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'string') {
+    const cleaned = value.replace(/[,\s%₱$]/g, '');
+    if (cleaned === '' || !/^[-+]?\d*\.?\d+(e[-+]?\d+)?$/i.test(cleaned)) return undefined;
+    const parsed = Number(cleaned);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+};
@@ -0,0 +1,55 @@
+import type { Anomaly, EconomicIndicator, IndicatorKey } from '../types';
+import { formatDelta, formatValue } from './format';
+import { getConsistencyRules, getIndicator, getValue } from './indicators';
+
+// Checks values against each indicator's plausibility limits and the registry's consistency
+// rules. Rows must be sorted by month. Jumps are measured from the previous reported value, so
+// quarterly series spread over their months are compared quarter to quarter.
+export const checkPlausibility = (data: EconomicIndicator[], keys: IndicatorKey[]): Anomaly[] => {
+  const anomalies: Anomaly[] = [];
+
+  for (const key of keys) {
+    const { name, unit, plausibility } = getIndicator(key);
+    if (!plausibility) continue;
+    const { min, max, maxChange } = plausibility;
+    let previous: { month: string; value: number } | null = null;
+
+    for (const row of data) {
+      const value = getValue(row, key);
+      if (value === null) continue;
+
+      if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+        const bounds = min !== undefined && max !== undefined
+          ? `${formatValue(min, unit)}–${formatValue(max, unit)}`
+          : min !== undefined ? `at least ${formatValue(min, unit)}` : `at most ${formatValue(max!, unit)}`;
+        anomalies.push({ code: 'out-of-bounds', month: row.month, indicator: key, value, message: `${name} of ${formatValue(value, unit)} is outside the plausible range (${bounds}).` });
+      }
+      if (maxChange !== undefined && previous && previous.value !== value && Math.abs(value - previous.value) > maxChange) {
+        anomalies.push({
+          code: 'jump',
+          month: row.month,
+          indicator: key,
+          value,
+          message: `${name} moved ${formatDelta(value - previous.value, unit)} from ${previous.month}, more than the ${formatValue(maxChange, unit)} expected.`,
+        });
+      }
+      previous = { month: row.month, value };
+    }
+  }
+
+  for (const rule of getConsistencyRules()) {
+    if (!keys.includes(rule.lower) || !keys.includes(rule.upper)) continue;
+    const lower = getIndicator(rule.lower);
+    const upper = getIndicator(rule.upper);
+    for (const row of data) {
+      const lowerValue = getValue(row, rule.lower);
+      const upperValue = getValue(row, rule.upper);
+      if (lowerValue === null || upperValue === null || lowerValue <= upperValue) continue;
+      const message = `${rule.name}: ${lower.name} (${formatValue(lowerValue, lower.unit)}) is above ${upper.name} (${formatValue(upperValue, upper.unit)}).`;
+      anomalies.push({ code: 'inconsistent', month: row.month, indicator: rule.lower, value: lowerValue, message, related: rule.upper });
+      anomalies.push({ code: 'inconsistent', month: row.month, indicator: rule.upper, value: upperValue, message, related: rule.lower });
+    }
+  }
+
+  return anomalies.sort((a, b) => a.month.localeCompare(b.month));
+};
@@ -0,0 +1,76 @@
+import type { EconomicIndicator, IndicatorValue, PolicyCorridorConfig } from '../types';
+import { getValue } from './indicators';
+
+// One month of the corridor chart. The corridor is the [floor, ceiling] pair, for drawing as a band.
+export interface CorridorRow {
+  month: string;
+  corridor: [number, number] | null;
+  policyRate: IndicatorValue;
+  floor: IndicatorValue;
+  ceiling: IndicatorValue;
+  lendingRate: IndicatorValue;
+  inflation: IndicatorValue;
+  // The policy rate less inflation in the same month.
+  realPolicyRate: IndicatorValue;
+  // Whether the policy rate is a forecast rather than a decided rate.
+  isForecast: boolean;
+}
+
+// A change in the policy rate, dated to the first month it applies to.
+export interface PolicyDecision {
+  month: string;
+  rate: number;
+  previousRate: number;
+  // In percentage points.
+  change: number;
+  isForecast: boolean;
+}
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+export const buildCorridorRows = (data: EconomicIndicator[], corridor: PolicyCorridorConfig): CorridorRow[] => {
+  return data.map(row => {
+    const policyRate = getValue(row, corridor.policyRate);
+    const floor = getValue(row, corridor.floor);
+    const ceiling = getValue(row, corridor.ceiling);
+    const inflation = corridor.inflation ? getValue(row, corridor.inflation) : null;
+    return {
+      month: row.month,
+      corridor: floor !== null && ceiling !== null ? [floor, ceiling] : null,
+      policyRate,
+      floor,
+      ceiling,
+      lendingRate: corridor.lendingRate ? getValue(row, corridor.lendingRate) : null,
+      inflation,
+      realPolicyRate: policyRate !== null && inflation !== null ? round(policyRate - inflation) : null,
+      isForecast: row.meta?.[corridor.policyRate]?.status === 'forecast',
+    };
+  });
+};
+
+// Finds every month in which the policy rate differs from the previous reported rate.
+export const findPolicyDecisions = (data: EconomicIndicator[], corridor: PolicyCorridorConfig): PolicyDecision[] => {
+  const decisions: PolicyDecision[] = [];
+  let previousRate: number | null = null;
+  for (const row of data) {
+    const rate = getValue(row, corridor.policyRate);
+    if (rate === null) continue;
+    if (previousRate !== null && rate !== previousRate) {
+      decisions.push({
+        month: row.month,
+        rate,
+        previousRate,
+        change: round(rate - previousRate),
+        isForecast: row.meta?.[corridor.policyRate]?.status === 'forecast',
+      });
+    }
+    previousRate = rate;
+  }
+  return decisions;
+};
+
+// Formats a rate change in basis points, e.g. "+25 bp" or "−50 bp".
+export const formatBasisPoints = (change: number): string => {
+  const basisPoints = Math.round(change * 100);
+  return `${basisPoints > 0 ? '+' : basisPoints < 0 ? '−' : '±'}${Math.abs(basisPoints)} bp`;
+};
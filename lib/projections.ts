@@ -0,0 +1,236 @@
+import type { EconomicIndicator, IndicatorKey, IndicatorProjection, ProjectionLevel, ProjectionMethod, ProjectionPoint, ProjectionSkip } from '../types';
+import { addMonths, countMonths } from './months';
+import { toNativeSeries } from './frequency';
+import { getIndicator, getValue } from './indicators';
+
+export const PROJECTION_METHOD_OPTIONS: { method: ProjectionMethod; label: string }[] = [
+  { method: 'exponentialSmoothing', label: 'Exponential smoothing' },
+  { method: 'arima', label: 'ARIMA(1,1,0)' },
+  { method: 'seasonalNaive', label: 'Seasonal naive' },
+];
+
+// How far past the last month of the data a projection reaches unless told otherwise.
+export const PROJECTION_EXTENSION_MONTHS = 6;
+// The longest projection, in months after the latest released value.
+export const MAX_PROJECTION_MONTHS = 36;
+export const DEFAULT_PROJECTION_LEVEL: ProjectionLevel = 80;
+
+// The fewest released observations a model is fitted to.
+const MIN_OBSERVATIONS = 6;
+
+const Z_SCORES: Record<ProjectionLevel, number> = { 80: 1.2816, 95: 1.96 };
+
+// Grid searched for the smoothing weights and trend damping.
+const ALPHAS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1];
+const BETAS = [0, 0.05, 0.1, 0.2, 0.3];
+const PHIS = [0.8, 0.9, 0.98];
+// Keeps the fitted AR(1) coefficient stationary.
+const MAX_AR_COEFFICIENT = 0.95;
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+export const getProjectionMethodLabel = (method: ProjectionMethod): string => {
+  return PROJECTION_METHOD_OPTIONS.find(option => option.method === method)?.label ?? method;
+};
+
+interface History {
+  // The first month of each period, oldest first, one per period with gaps interpolated.
+  periods: string[];
+  values: number[];
+  // Months per period and periods per year.
+  step: number;
+  seasonLength: number;
+  // The latest month holding a released value.
+  baseMonth: string;
+  baseValue: number;
+}
+
+// Point forecasts and forecast-error variances for 1 to `horizon` periods ahead.
+interface Fit {
+  forecasts: number[];
+  variances: number[];
+  parameters: Record<string, number>;
+  sigma: number;
+}
+
+// Collects an indicator's released (non-forecast) values at its native frequency. Event series
+// are taken month by month, since their value holds between decisions.
+const getHistory = (data: EconomicIndicator[], key: IndicatorKey): History | null => {
+  const released = data.filter(row => getValue(row, key) !== null && row.meta?.[key]?.status !== 'forecast');
+  if (released.length === 0) return null;
+
+  const step = getIndicator(key).frequency === 'quarterly' ? 3 : 1;
+  const observations = step === 3
+    ? toNativeSeries(released, key).map(observation => ({ month: observation.startMonth, value: observation.value }))
+    : released.map(row => ({ month: row.month, value: getValue(row, key) as number }));
+
+  const periods: string[] = [];
+  const values: number[] = [];
+  observations.forEach((observation, index) => {
+    const previous = observations[index - 1];
+    if (previous) {
+      const gap = Math.round((countMonths(previous.month, observation.month) - 1) / step);
+      for (let offset = 1; offset < gap; offset++) {
+        periods.push(addMonths(previous.month, offset * step));
+        values.push(previous.value + ((observation.value - previous.value) * offset) / gap);
+      }
+    }
+    periods.push(observation.month);
+    values.push(observation.value);
+  });
+
+  const last = released[released.length - 1];
+  return { periods, values, step, seasonLength: 12 / step, baseMonth: last.month, baseValue: getValue(last, key) as number };
+};
+
+// Holt's linear trend with a damped trend. The weights are chosen by grid search to minimise the
+// one-step-ahead squared errors; the variances follow the ETS(A,Ad,N) formulas.
+const fitExponentialSmoothing = (values: number[], horizon: number): Fit => {
+  let best = { alpha: 1, beta: 0, phi: 1, sse: Infinity, level: values[0], trend: 0 };
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const phi of PHIS) {
+        let level = values[0];
+        let trend = 0;
+        let sse = 0;
+        for (let t = 1; t < values.length; t++) {
+          const forecast = level + phi * trend;
+          sse += (values[t] - forecast) ** 2;
+          const nextLevel = alpha * values[t] + (1 - alpha) * forecast;
+          trend = beta * (nextLevel - level) + (1 - beta) * phi * trend;
+          level = nextLevel;
+        }
+        if (sse < best.sse) best = { alpha, beta, phi, sse, level, trend };
+      }
+    }
+  }
+
+  const { alpha, beta, phi, level, trend } = best;
+  const sigma = Math.sqrt(best.sse / (values.length - 1));
+  const forecasts: number[] = [];
+  const variances: number[] = [];
+  let dampedSum = 0;
+  let errorWeights = 0;
+  for (let h = 1; h <= horizon; h++) {
+    // The variance h steps ahead sums the weights of the errors made 1 to h - 1 steps ahead.
+    if (h > 1) errorWeights += (alpha * (1 + beta * dampedSum)) ** 2;
+    dampedSum += phi ** h;
+    forecasts.push(level + dampedSum * trend);
+    variances.push(sigma ** 2 * (1 + errorWeights));
+  }
+  return { forecasts, variances, parameters: { alpha, beta, phi }, sigma };
+};
+
+// An AR(1) model of the period-on-period changes with a constant drift, fitted by least squares.
+const fitArima = (values: number[], horizon: number): Fit => {
+  const changes = values.slice(1).map((value, index) => value - values[index]);
+  const previous = changes.slice(0, -1);
+  const current = changes.slice(1);
+  const mean = (items: number[]) => items.reduce((sum, item) => sum + item, 0) / items.length;
+  const meanPrevious = mean(previous);
+  const meanCurrent = mean(current);
+  const sxx = previous.reduce((sum, item) => sum + (item - meanPrevious) ** 2, 0);
+  const sxy = previous.reduce((sum, item, index) => sum + (item - meanPrevious) * (current[index] - meanCurrent), 0);
+  const phi = sxx === 0 ? 0 : Math.max(-MAX_AR_COEFFICIENT, Math.min(MAX_AR_COEFFICIENT, sxy / sxx));
+  const drift = meanCurrent - phi * meanPrevious;
+  const sse = current.reduce((sum, item, index) => sum + (item - drift - phi * previous[index]) ** 2, 0);
+  const sigma = Math.sqrt(sse / Math.max(current.length - 2, 1));
+
+  const forecasts: number[] = [];
+  const variances: number[] = [];
+  let change = changes[changes.length - 1];
+  let level = values[values.length - 1];
+  // The weight of the error made j steps back on the level is 1 + phi + ... + phi^j.
+  let weight = 0;
+  let weightSum = 0;
+  for (let h = 1; h <= horizon; h++) {
+    change = drift + phi * change;
+    level += change;
+    weight += phi ** (h - 1);
+    weightSum += weight ** 2;
+    forecasts.push(level);
+    variances.push(sigma ** 2 * weightSum);
+  }
+  return { forecasts, variances, parameters: { phi, drift }, sigma };
+};
+
+// Repeats the value from the same period of the latest year, with errors measured on the
+// year-on-year changes of the history.
+const fitSeasonalNaive = (values: number[], seasonLength: number, horizon: number): Fit => {
+  const errors = values.slice(seasonLength).map((value, index) => value - values[index]);
+  const sigma = Math.sqrt(errors.reduce((sum, error) => sum + error ** 2, 0) / errors.length);
+  const forecasts: number[] = [];
+  const variances: number[] = [];
+  for (let h = 1; h <= horizon; h++) {
+    forecasts.push(values[values.length - seasonLength + ((h - 1) % seasonLength)]);
+    variances.push(sigma ** 2 * (Math.floor((h - 1) / seasonLength) + 1));
+  }
+  return { forecasts, variances, parameters: { seasonLength }, sigma };
+};
+
+export interface ProjectionOptions {
+  method: ProjectionMethod;
+  level?: ProjectionLevel;
+  // The last month to project; each indicator is projected from its latest released value.
+  throughMonth: string;
+}
+
+// Projects one indicator, returning the reason when it can't be.
+const projectIndicator = (data: EconomicIndicator[], key: IndicatorKey, options: ProjectionOptions): IndicatorProjection | string => {
+  const history = getHistory(data, key);
+  if (!history) return 'It has no released values.';
+  const { periods, values, step, seasonLength } = history;
+  const minimum = options.method === 'seasonalNaive' ? seasonLength + 2 : MIN_OBSERVATIONS;
+  if (values.length < minimum) {
+    return `${getProjectionMethodLabel(options.method)} needs at least ${minimum} released values; it has ${values.length}.`;
+  }
+
+  const lastPeriod = periods[periods.length - 1];
+  const horizon = Math.min(Math.ceil((countMonths(lastPeriod, options.throughMonth) - 1) / step), Math.floor(MAX_PROJECTION_MONTHS / step));
+  if (horizon <= 0 || history.baseMonth >= options.throughMonth) return `Its released values already reach ${options.throughMonth}.`;
+
+  const fit = options.method === 'exponentialSmoothing'
+    ? fitExponentialSmoothing(values, horizon)
+    : options.method === 'arima' ? fitArima(values, horizon) : fitSeasonalNaive(values, seasonLength, horizon);
+
+  const level = options.level ?? DEFAULT_PROJECTION_LEVEL;
+  const points: ProjectionPoint[] = [];
+  fit.forecasts.forEach((forecast, index) => {
+    const margin = Z_SCORES[level] * Math.sqrt(fit.variances[index]);
+    // Quarterly projections cover every month of their quarter, like the fetched values do.
+    for (let offset = 0; offset < step; offset++) {
+      const month = addMonths(lastPeriod, (index + 1) * step + offset);
+      if (month <= history.baseMonth || month > options.throughMonth) continue;
+      points.push({ month, value: round(forecast), lower: round(forecast - margin), upper: round(forecast + margin) });
+    }
+  });
+
+  return {
+    indicator: key,
+    method: options.method,
+    level,
+    baseMonth: history.baseMonth,
+    baseValue: history.baseValue,
+    observations: values.length,
+    parameters: Object.fromEntries(Object.entries(fit.parameters).map(([name, value]) => [name, round(value)])),
+    sigma: round(fit.sigma),
+    points,
+  };
+};
+
+// Projects each indicator from its released history alone, ignoring any forecasts in the data,
+// so the result can be compared with the sourced forecast.
+export const projectIndicators = (
+  data: EconomicIndicator[],
+  keys: IndicatorKey[],
+  options: ProjectionOptions,
+): { projections: IndicatorProjection[]; skipped: ProjectionSkip[] } => {
+  const projections: IndicatorProjection[] = [];
+  const skipped: ProjectionSkip[] = [];
+  for (const key of keys) {
+    const result = projectIndicator(data, key, options);
+    if (typeof result === 'string') skipped.push({ indicator: key, reason: result });
+    else projections.push(result);
+  }
+  return { projections, skipped };
+};
@@ -0,0 +1,40 @@
+import type { IndicatorKey, IndicatorValue, RevisionPoint, Vintage, VintageDiff } from '../types';
+import { getValue } from './indicators';
+
+const DEFAULT_LARGEST_COUNT = 5;
+
+const roundDelta = (value: number): number => Math.round(value * 10000) / 10000;
+
+const subtract = (later: IndicatorValue, earlier: IndicatorValue): number | null => {
+  return later === null || earlier === null ? null : roundDelta(later - earlier);
+};
+
+// Computes how an indicator's value for each month was revised across two or more vintages.
+// Vintages are ordered oldest to newest regardless of the order they are passed in.
+export const diffVintages = (vintages: Vintage[], indicator: IndicatorKey, largestCount: number = DEFAULT_LARGEST_COUNT): VintageDiff => {
+  const ordered = [...vintages].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const lookups = ordered.map(vintage => new Map(vintage.data.map(row => [row.month, getValue(row, indicator)])));
+  const months = [...new Set(ordered.flatMap(vintage => vintage.data.map(row => row.month)))].sort();
+
+  const points: RevisionPoint[] = months.map(month => {
+    const values = lookups.map(lookup => lookup.get(month) ?? null);
+    const stepDeltas = values.slice(1).map((value, index) => subtract(value, values[index]));
+    const present = values.filter((value): value is number => value !== null);
+    const totalDelta = present.length >= 2 ? roundDelta(present[present.length - 1] - present[0]) : null;
+    return { month, values, stepDeltas, totalDelta };
+  });
+
+  const largestRevisions = points
+    .filter((point): point is RevisionPoint & { totalDelta: number } => point.totalDelta !== null && point.totalDelta !== 0)
+    .sort((a, b) => Math.abs(b.totalDelta) - Math.abs(a.totalDelta))
+    .slice(0, largestCount)
+    .map(point => ({ month: point.month, delta: point.totalDelta }));
+
+  return {
+    indicator,
+    vintages: ordered.map(({ id, createdAt, parameters, rowCount }) => ({ id, createdAt, parameters, rowCount })),
+    points,
+    largestRevisions,
+  };
+};
@@ -0,0 +1,196 @@
+import type { EconomicIndicator, IndicatorKey, PassThroughRule, Scenario, ScenarioShock, ShockKind } from '../types';
+import { SHOCK_KINDS } from '../types';
+import { addMonths, isValidMonth } from './months';
+import { formatDelta, formatValue } from './format';
+import { getIndicator, getValue, isIndicatorKey } from './indicators';
+import { createClientId } from './ids';
+
+export const MAX_PASS_THROUGH_LAG = 24;
+
+export const SHOCK_KIND_LABELS: Record<ShockKind, string> = {
+  level: 'Set to',
+  percent: 'Change by %',
+  change: 'Change by',
+};
+
+// The largest change a scenario makes to an indicator, and when.
+export interface ScenarioEffect {
+  indicator: IndicatorKey;
+  month: string;
+  delta: number;
+}
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Describes a shock in words, e.g. "+20.00% from 2026-01 to 2026-06".
+export const describeShock = (shock: ScenarioShock): string => {
+  const { unit } = getIndicator(shock.indicator);
+  const change = shock.kind === 'level'
+    ? `set to ${formatValue(shock.value, unit)}`
+    : shock.kind === 'percent' ? formatDelta(shock.value, '%') : formatDelta(shock.value, unit);
+  const months = shock.startMonth === shock.endMonth ? `in ${shock.startMonth}` : `from ${shock.startMonth} to ${shock.endMonth}`;
+  return `${change} ${months}`;
+};
+
+const applyShock = (value: number, shock: ScenarioShock): number => {
+  switch (shock.kind) {
+    case 'level':
+      return shock.value;
+    case 'percent':
+      return value * (1 + shock.value / 100);
+    case 'change':
+      return value + shock.value;
+  }
+};
+
+// Returns the indicators of a chain of rules that leads back to where it started, if any. Such a
+// loop would feed a change back into itself without end.
+const findLoop = (rules: PassThroughRule[]): IndicatorKey[] | null => {
+  const visit = (key: IndicatorKey, path: IndicatorKey[]): IndicatorKey[] | null => {
+    if (path.includes(key)) return [...path.slice(path.indexOf(key)), key];
+    for (const rule of rules.filter(candidate => candidate.source === key)) {
+      const loop = visit(rule.target, [...path, key]);
+      if (loop) return loop;
+    }
+    return null;
+  };
+  for (const rule of rules) {
+    const loop = visit(rule.source, []);
+    if (loop) return loop;
+  }
+  return null;
+};
+
+// Orders rules so that every change flowing into an indicator is known before that indicator
+// passes its own change on.
+const orderRules = (rules: PassThroughRule[]): PassThroughRule[] => {
+  const order: IndicatorKey[] = [];
+  const visited = new Set<IndicatorKey>();
+  const visit = (key: IndicatorKey) => {
+    if (visited.has(key)) return;
+    visited.add(key);
+    rules.filter(rule => rule.target === key).forEach(rule => visit(rule.source));
+    order.push(key);
+  };
+  rules.forEach(rule => visit(rule.target));
+  return [...rules].sort((a, b) => order.indexOf(a.source) - order.indexOf(b.source));
+};
+
+// Applies a scenario to baseline rows sorted by month. Shocks change their indicator's values
+// within their months; pass-through rules then carry every change on to the rules' targets, lag
+// months later, adding to any shock of their own. Months without a baseline value are left empty,
+// and changes reaching past the last month are dropped.
+export const applyScenario = (data: EconomicIndicator[], scenario: Pick<Scenario, 'shocks' | 'rules'>): EconomicIndicator[] => {
+  const rows = data.map(row => ({ ...row }));
+  const indexByMonth = new Map(rows.map((row, index) => [row.month, index]));
+  const deltas = new Map<IndicatorKey, Map<string, number>>();
+  const getDelta = (key: IndicatorKey, month: string) => deltas.get(key)?.get(month) ?? 0;
+  const addDelta = (key: IndicatorKey, month: string, amount: number) => {
+    const byMonth = deltas.get(key) ?? new Map<string, number>();
+    byMonth.set(month, (byMonth.get(month) ?? 0) + amount);
+    deltas.set(key, byMonth);
+  };
+
+  for (const shock of scenario.shocks) {
+    for (const row of data) {
+      const baseline = getValue(row, shock.indicator);
+      if (baseline === null || row.month < shock.startMonth || row.month > shock.endMonth) continue;
+      // Overlapping shocks build on each other, in the order they are listed.
+      const current = baseline + getDelta(shock.indicator, row.month);
+      addDelta(shock.indicator, row.month, applyShock(current, shock) - current);
+    }
+  }
+
+  for (const rule of orderRules(scenario.rules)) {
+    for (const [month, delta] of Array.from(deltas.get(rule.source) ?? [])) {
+      const targetMonth = addMonths(month, rule.lag);
+      const index = indexByMonth.get(targetMonth);
+      if (index === undefined || getValue(data[index], rule.target) === null) continue;
+      addDelta(rule.target, targetMonth, rule.coefficient * delta);
+    }
+  }
+
+  deltas.forEach((byMonth, key) => {
+    byMonth.forEach((delta, month) => {
+      const row = rows[indexByMonth.get(month)!];
+      row[key] = round((getValue(row, key) as number) + delta);
+    });
+  });
+  return rows;
+};
+
+// The peak change of every indicator the scenario moves, largest first.
+export const summarizeScenario = (baseline: EconomicIndicator[], scenario: EconomicIndicator[], keys: IndicatorKey[]): ScenarioEffect[] => {
+  const effects: ScenarioEffect[] = [];
+  for (const key of keys) {
+    let peak: ScenarioEffect | null = null;
+    baseline.forEach((row, index) => {
+      const before = getValue(row, key);
+      const after = scenario[index] ? getValue(scenario[index], key) : null;
+      if (before === null || after === null) return;
+      const delta = round(after - before);
+      if (delta !== 0 && (!peak || Math.abs(delta) > Math.abs(peak.delta))) peak = { indicator: key, month: row.month, delta };
+    });
+    if (peak) effects.push(peak);
+  }
+  return effects.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+};
+
+const parseShock = (raw: unknown, label: string, problems: string[]): ScenarioShock | undefined => {
+  const { indicator, kind, value, startMonth, endMonth } = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const before = problems.length;
+  if (!isIndicatorKey(indicator)) problems.push(`${label} has an unknown "indicator" ${JSON.stringify(indicator ?? null)}.`);
+  if (!SHOCK_KINDS.includes(kind as ShockKind)) problems.push(`${label} needs a "kind" of ${SHOCK_KINDS.join(', ')}.`);
+  if (!isFiniteNumber(value)) problems.push(`${label} needs a numeric "value".`);
+  else if (kind === 'percent' && value <= -100) problems.push(`${label} can't lower a value by 100% or more.`);
+  if (!isValidMonth(startMonth) || !isValidMonth(endMonth)) problems.push(`${label} needs a "startMonth" and "endMonth" in YYYY-MM format.`);
+  else if (startMonth > endMonth) problems.push(`${label} ends before it starts.`);
+  if (problems.length > before) return undefined;
+  return { indicator: indicator as IndicatorKey, kind: kind as ShockKind, value: value as number, startMonth: startMonth as string, endMonth: endMonth as string };
+};
+
+const parseRule = (raw: unknown, label: string, problems: string[]): PassThroughRule | undefined => {
+  const { source, target, coefficient, lag } = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const before = problems.length;
+  if (!isIndicatorKey(source) || !isIndicatorKey(target)) problems.push(`${label} needs a known "source" and "target" indicator.`);
+  else if (source === target) problems.push(`${label} can't pass an indicator's change on to itself.`);
+  if (!isFiniteNumber(coefficient)) problems.push(`${label} needs a numeric "coefficient".`);
+  if (!Number.isInteger(lag) || (lag as number) < 0 || (lag as number) > MAX_PASS_THROUGH_LAG) {
+    problems.push(`${label} needs a "lag" of 0 to ${MAX_PASS_THROUGH_LAG} months.`);
+  }
+  if (problems.length > before) return undefined;
+  return { source: source as IndicatorKey, target: target as IndicatorKey, coefficient: coefficient as number, lag: lag as number };
+};
+
+// Validates a scenario, e.g. one read back from storage. Scenarios get an id of their own when
+// they don't carry one.
+export const parseScenario = (raw: unknown, label: string): { scenario?: Scenario; problems: string[] } => {
+  const entry = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const problems: string[] = [];
+  if (typeof entry.name !== 'string' || entry.name.trim() === '') problems.push(`${label} needs a "name".`);
+  if (!Array.isArray(entry.shocks) || entry.shocks.length === 0) problems.push(`${label} needs at least one shock.`);
+  if (entry.rules !== undefined && !Array.isArray(entry.rules)) problems.push(`${label} has "rules" that are not a list.`);
+
+  const shocks = (Array.isArray(entry.shocks) ? entry.shocks : []).map((shock, index) => parseShock(shock, `Shock ${index + 1}`, problems));
+  const rules = (Array.isArray(entry.rules) ? entry.rules : []).map((rule, index) => parseRule(rule, `Rule ${index + 1}`, problems));
+  if (problems.length > 0) return { problems };
+
+  const loop = findLoop(rules as PassThroughRule[]);
+  if (loop) {
+    return { problems: [`The pass-through rules form a loop: ${loop.map(key => getIndicator(key).name).join(' → ')}.`] };
+  }
+
+  const id = typeof entry.id === 'string' && entry.id !== '' ? entry.id : createClientId('scenario');
+  return {
+    scenario: {
+      id,
+      name: (entry.name as string).trim(),
+      shocks: shocks as ScenarioShock[],
+      rules: rules as PassThroughRule[],
+      updatedAt: typeof entry.updatedAt === 'string' ? entry.updatedAt : new Date().toISOString(),
+    },
+    problems,
+  };
+};
@@ -0,0 +1,106 @@
+import type { EconomicIndicator, IndicatorKey, Source, SourceAttribution, SourceTrust } from '../types';
+import { SOURCE_TRUST_LEVELS } from '../types';
+
+// Domains are matched with their subdomains. News is checked first so government news agencies
+// aren't ranked with the statistical offices.
+const NEWS_DOMAINS = [
+  'pna.gov.ph', 'inquirer.net', 'philstar.com', 'rappler.com', 'bworldonline.com', 'mb.com.ph', 'gmanetwork.com',
+  'abs-cbn.com', 'manilatimes.net', 'businessmirror.com.ph', 'reuters.com', 'bloomberg.com', 'cnbc.com', 'ft.com',
+];
+const OFFICIAL_DOMAINS = ['bsp.gov.ph', 'psa.gov.ph', 'dof.gov.ph', 'depdev.gov.ph', 'neda.gov.ph', 'dbm.gov.ph', 'treasury.gov.ph', 'dole.gov.ph'];
+const INSTITUTIONAL_DOMAINS = ['adb.org', 'imf.org', 'worldbank.org', 'oecd.org', 'amro-asia.org', 'bis.org', 'un.org', 'eia.gov'];
+
+// Gemini grounding links point at a redirect service and carry the real domain as their title.
+const REDIRECT_HOSTS = ['vertexaisearch.cloud.google.com'];
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i;
+
+const matchesDomain = (domain: string, candidates: string[]): boolean => {
+  return candidates.some(candidate => domain === candidate || domain.endsWith(`.${candidate}`));
+};
+
+export const getHostname = (uri: string): string | null => {
+  try {
+    return new URL(uri).hostname.replace(/^www\./, '').toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+// The domain a source comes from, seen through grounding redirects.
+export const getSourceDomain = (source: Source): string | null => {
+  const hostname = getHostname(source.uri);
+  if (hostname && REDIRECT_HOSTS.includes(hostname)) {
+    const title = source.title.trim().replace(/^www\./, '').toLowerCase();
+    return DOMAIN_PATTERN.test(title) ? title : null;
+  }
+  return hostname;
+};
+
+export const getDomainTrust = (domain: string | null): SourceTrust => {
+  if (!domain) return 'unknown';
+  if (matchesDomain(domain, NEWS_DOMAINS)) return 'news';
+  if (matchesDomain(domain, OFFICIAL_DOMAINS) || domain.endsWith('.gov.ph')) return 'official';
+  if (matchesDomain(domain, INSTITUTIONAL_DOMAINS)) return 'institutional';
+  return 'unknown';
+};
+
+export const getSourceTrust = (source: Source): SourceTrust => source.trust ?? getDomainTrust(getSourceDomain(source));
+
+export const isLowTrust = (trust: SourceTrust): boolean => trust === 'news' || trust === 'unknown';
+
+// Sorts sources by trust, most trusted first, keeping their order within each level.
+export const rankSources = (sources: Source[]): Source[] => {
+  return sources
+    .map(source => ({ ...source, trust: getSourceTrust(source) }))
+    .sort((a, b) => SOURCE_TRUST_LEVELS.indexOf(a.trust) - SOURCE_TRUST_LEVELS.indexOf(b.trust));
+};
+
+const mergeAttributions = (a: SourceAttribution[] = [], b: SourceAttribution[] = []): SourceAttribution[] => {
+  const byIndicator = new Map<IndicatorKey, Set<string>>();
+  for (const { indicator, months } of [...a, ...b]) {
+    const merged = byIndicator.get(indicator) ?? new Set<string>();
+    months.forEach(month => merged.add(month));
+    byIndicator.set(indicator, merged);
+  }
+  return Array.from(byIndicator, ([indicator, months]) => ({ indicator, months: Array.from(months).sort() }));
+};
+
+// Combines source lists, deduplicated by URI, joining what each copy says it substantiates.
+export const mergeSources = (...lists: Source[][]): Source[] => {
+  const byUri = new Map<string, Source>();
+  for (const source of lists.flat()) {
+    const existing = byUri.get(source.uri);
+    if (!existing) {
+      byUri.set(source.uri, source);
+      continue;
+    }
+    const attributions = mergeAttributions(existing.attributions, source.attributions);
+    byUri.set(source.uri, { ...existing, ...(attributions.length > 0 ? { attributions } : {}) });
+  }
+  return Array.from(byUri.values());
+};
+
+// Attributes sources to the values whose own source URL is on the same domain, then ranks them.
+export const attributeSources = (sources: Source[], data: EconomicIndicator[], indicatorKeys: IndicatorKey[]): Source[] => {
+  const attributed = sources.map(source => {
+    const domain = getSourceDomain(source);
+    if (!domain) return source;
+    const attributions = indicatorKeys.flatMap(indicator => {
+      const months = data
+        .filter(row => {
+          const sourceUri = row.meta?.[indicator]?.sourceUri;
+          return sourceUri !== undefined && getHostname(sourceUri) === domain;
+        })
+        .map(row => row.month);
+      return months.length > 0 ? [{ indicator, months }] : [];
+    });
+    const merged = mergeAttributions(source.attributions, attributions);
+    return merged.length > 0 ? { ...source, attributions: merged } : source;
+  });
+  return rankSources(attributed);
+};
+
+// The sources backing an indicator, most trusted first.
+export const getIndicatorSources = (sources: Source[], indicator: IndicatorKey): Source[] => {
+  return rankSources(sources.filter(source => source.attributions?.some(attribution => attribution.indicator === indicator)));
+};
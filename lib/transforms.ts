@@ -0,0 +1,173 @@
+import type { EconomicIndicator, IndicatorKey, IndicatorMetadata, IndicatorValue } from '../types';
+import { addMonths } from './months';
+import { getIndicator, getValue } from './indicators';
+import { quarterBounds, toNativeSeries, toQuarter } from './frequency';
+
+export type TransformKind = 'none' | 'mom' | 'yoy' | 'rebase' | 'rolling' | 'zscore';
+
+export interface IndicatorTransform {
+  kind: TransformKind;
+  // For 'rebase': the month whose value becomes 100. Defaults to the first month with a value.
+  rebaseMonth?: string;
+  // For 'rolling': the number of periods averaged, i.e. months, or quarters for a quarterly series.
+  window?: number;
+}
+
+export type TransformSettings = Partial<Record<IndicatorKey, IndicatorTransform>>;
+
+export const TRANSFORM_OPTIONS: { kind: TransformKind; label: string }[] = [
+  { kind: 'none', label: 'Raw values' },
+  { kind: 'mom', label: 'Month-on-month change' },
+  { kind: 'yoy', label: 'Year-on-year change' },
+  { kind: 'rebase', label: 'Index (rebased to 100)' },
+  { kind: 'rolling', label: 'Rolling average' },
+  { kind: 'zscore', label: 'Z-score' },
+];
+
+export const DEFAULT_ROLLING_WINDOW = 3;
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+// Changes in a rate are reported in percentage points; changes in a level as a percentage.
+const change = (current: number, previous: number, unit: string): number | null => {
+  if (unit === '%') return round(current - previous);
+  return previous === 0 ? null : round(((current - previous) / Math.abs(previous)) * 100);
+};
+
+// The month a series is rebased to: the chosen month when the series has a value there, otherwise
+// its first month with a value.
+const findBaseMonth = (months: string[], values: IndicatorValue[], rebaseMonth?: string): string | undefined => {
+  const chosen = rebaseMonth ? values[months.indexOf(rebaseMonth)] : undefined;
+  return chosen !== null && chosen !== undefined ? rebaseMonth : months.find((_, index) => values[index] !== null);
+};
+
+// Transforms one series whose periods start at `months` and are `step` months long, so a change
+// compares consecutive periods and a rolling window counts periods.
+const transformSeries = (months: string[], values: IndicatorValue[], transform: IndicatorTransform, unit: string, step: number): IndicatorValue[] => {
+  const byMonth = new Map(months.map((month, index) => [month, values[index]]));
+
+  switch (transform.kind) {
+    case 'mom':
+    case 'yoy': {
+      const lag = transform.kind === 'mom' ? step : 12;
+      return months.map((month, index) => {
+        const current = values[index];
+        const previous = byMonth.get(addMonths(month, -lag));
+        return current === null || previous === null || previous === undefined ? null : change(current, previous, unit);
+      });
+    }
+    case 'rebase': {
+      const baseMonth = findBaseMonth(months, values, transform.rebaseMonth);
+      const base = baseMonth ? byMonth.get(baseMonth) : null;
+      if (base === null || base === undefined || base === 0) return values.map(() => null);
+      return values.map(value => (value === null ? null : round((value / base) * 100)));
+    }
+    case 'rolling': {
+      const window = Math.max(1, Math.floor(transform.window ?? DEFAULT_ROLLING_WINDOW));
+      return months.map((month, index) => {
+        if (values[index] === null) return null;
+        const windowValues: number[] = [];
+        for (let offset = 0; offset < window; offset++) {
+          const value = byMonth.get(addMonths(month, -offset * step));
+          if (value === null || value === undefined) return null;
+          windowValues.push(value);
+        }
+        return round(windowValues.reduce((sum, value) => sum + value, 0) / window);
+      });
+    }
+    case 'zscore': {
+      const present = values.filter((value): value is number => value !== null);
+      if (present.length < 2) return values.map(() => null);
+      const mean = present.reduce((sum, value) => sum + value, 0) / present.length;
+      const sd = Math.sqrt(present.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (present.length - 1));
+      if (sd === 0) return values.map(value => (value === null ? null : 0));
+      return values.map(value => (value === null ? null : round((value - mean) / sd)));
+    }
+    default:
+      return values;
+  }
+};
+
+// Whether an indicator is transformed quarter by quarter rather than month by month.
+const isQuarterly = (key: IndicatorKey, interpolatedKeys: IndicatorKey[]): boolean =>
+  getIndicator(key).frequency === 'quarterly' && !interpolatedKeys.includes(key);
+
+// The months of a series and its values, quarter by quarter for a quarterly series.
+const getPeriods = (data: EconomicIndicator[], key: IndicatorKey, quarterly: boolean): { months: string[]; values: IndicatorValue[] } => {
+  if (!quarterly) return { months: data.map(row => row.month), values: data.map(row => getValue(row, key)) };
+  const observations = toNativeSeries(data, key);
+  return { months: observations.map(observation => observation.startMonth), values: observations.map(observation => observation.value) };
+};
+
+// The chosen rebase month, moved to the start of its quarter for a quarterly series.
+const getRebaseMonth = (transform: IndicatorTransform, quarterly: boolean): string | undefined =>
+  quarterly && transform.rebaseMonth ? quarterBounds(transform.rebaseMonth).startMonth : transform.rebaseMonth;
+
+// The period a rebased series is actually indexed to, e.g. "2024-03" or "2024-Q1" for a quarterly
+// series, which is its first period with a value when the chosen month has none.
+export const getRebasePeriod = (data: EconomicIndicator[], key: IndicatorKey, transform: IndicatorTransform, interpolatedKeys: IndicatorKey[] = []): string | undefined => {
+  const quarterly = isQuarterly(key, interpolatedKeys);
+  const { months, values } = getPeriods(data, key, quarterly);
+  const baseMonth = findBaseMonth(months, values, getRebaseMonth(transform, quarterly));
+  return baseMonth && quarterly ? toQuarter(baseMonth) : baseMonth;
+};
+
+// Applies the configured transformation to each indicator. Rows must be sorted by month; status
+// metadata is carried over unchanged. Quarterly series are transformed on their native quarters
+// (so MoM becomes quarter-on-quarter) and the result is spread back over the months that had a
+// value, unless they are listed in `interpolatedKeys` because they were resampled to monthly values.
+export const applyTransforms = (data: EconomicIndicator[], settings: TransformSettings, interpolatedKeys: IndicatorKey[] = []): EconomicIndicator[] => {
+  const rows = data.map(row => ({ ...row }));
+
+  for (const [key, transform] of Object.entries(settings) as [IndicatorKey, IndicatorTransform][]) {
+    if (!transform || transform.kind === 'none') continue;
+    const { unit } = getIndicator(key);
+    const quarterly = isQuarterly(key, interpolatedKeys);
+    const periods = getPeriods(data, key, quarterly);
+    const transformed = transformSeries(periods.months, periods.values, { ...transform, rebaseMonth: getRebaseMonth(transform, quarterly) }, unit, quarterly ? 3 : 1);
+
+    if (quarterly) {
+      const byQuarter = new Map(periods.months.map((month, index) => [toQuarter(month), transformed[index]]));
+      rows.forEach(row => {
+        if (getValue(row, key) !== null) row[key] = byQuarter.get(toQuarter(row.month)) ?? null;
+      });
+      continue;
+    }
+
+    rows.forEach((row, index) => {
+      row[key] = transformed[index];
+    });
+  }
+  return rows;
+};
+
+// Returns the indicator's metadata with its name and unit adjusted for the transformation.
+// Thresholds only apply to raw values, so they are dropped for any other transformation.
+// `interpolated` marks a quarterly series that was resampled to monthly values before transforming,
+// and `rebasePeriod` is the period a rebased series was indexed to, from getRebasePeriod.
+export const describeTransform = (
+  key: IndicatorKey,
+  transform?: IndicatorTransform,
+  { interpolated = false, rebasePeriod }: { interpolated?: boolean; rebasePeriod?: string } = {},
+): IndicatorMetadata => {
+  const metadata = getIndicator(key);
+  if (!transform || transform.kind === 'none') return metadata;
+
+  const { threshold, thresholdDescription, ...rest } = metadata;
+  const changeUnit = metadata.unit === '%' ? 'pp' : '%';
+  const quarterly = isQuarterly(key, interpolated ? [key] : []);
+  switch (transform.kind) {
+    case 'mom':
+      return { ...rest, name: `${metadata.name} (${quarterly ? 'QoQ' : 'MoM'} change)`, unit: changeUnit };
+    case 'yoy':
+      return { ...rest, name: `${metadata.name} (YoY change)`, unit: changeUnit };
+    case 'rebase':
+      return { ...rest, name: `${metadata.name} (Index${rebasePeriod ? `, ${rebasePeriod}=100` : ''})`, unit: '' };
+    case 'rolling':
+      return { ...rest, name: `${metadata.name} (${transform.window ?? DEFAULT_ROLLING_WINDOW}-${quarterly ? 'qtr' : 'mo'} avg)` };
+    case 'zscore':
+      return { ...rest, name: `${metadata.name} (z-score)`, unit: 'σ' };
+    default:
+      return metadata;
+  }
+};
@@ -0,0 +1,190 @@
+import type { EconomicIndicator, IndicatorKey, IndicatorValue, UserSeries, ValidationWarning } from '../types';
+import { coerceNumber, normalizeMonth } from './parse';
+import { IndicatorTransform, applyTransforms, describeTransform } from './transforms';
+import { getIndicator, getIndicatorKeys, getValue } from './indicators';
+import { createClientId } from './ids';
+
+// A user file parsed into one row per month, before its columns are mapped to series.
+export interface ParsedImport {
+  fileName: string;
+  columns: string[];
+  rows: { month: string; values: IndicatorValue[] }[];
+  warnings: ValidationWarning[];
+}
+
+export interface UserSeriesOptions {
+  name: string;
+  unit: string;
+  color: string;
+  indicator?: IndicatorKey;
+}
+
+const MONTH_COLUMNS = ['month', 'date', 'period'];
+
+// Colours for custom series, chosen to stand apart from the built-in indicator colours.
+export const USER_SERIES_COLORS = ['#f472b6', '#a3e635', '#fde047', '#67e8f9', '#c4b5fd', '#fdba74'];
+
+// Splits CSV text into rows of cells, honouring quoted cells with embedded commas, quotes and
+// line breaks.
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+// Reads a table of records keyed by column name into monthly rows. Months are normalized,
+// values coerced to numbers, and every row or value that had to be dropped is reported.
+const toParsedImport = (fileName: string, records: Record<string, unknown>[], columns: string[], monthColumn: string): ParsedImport => {
+  const warnings: ValidationWarning[] = [];
+  const byMonth = new Map<string, IndicatorValue[]>();
+
+  records.forEach((record, index) => {
+    const month = normalizeMonth(typeof record[monthColumn] === 'number' ? String(record[monthColumn]) : record[monthColumn]);
+    if (!month) {
+      warnings.push({ code: 'invalid-month', message: `Row ${index + 1} has an unrecognised month ${JSON.stringify(record[monthColumn] ?? null)} and was skipped.` });
+      return;
+    }
+    if (byMonth.has(month)) {
+      warnings.push({ code: 'duplicate-month', month, message: `Duplicate row for ${month} was skipped.` });
+      return;
+    }
+
+    byMonth.set(month, columns.map(column => {
+      const raw = record[column];
+      if (raw === null || raw === undefined || raw === '') return null;
+      const value = coerceNumber(raw);
+      if (value === undefined) {
+        warnings.push({ code: 'invalid-value', month, indicator: column, message: `Non-numeric ${column} value ${JSON.stringify(raw)} for ${month} was skipped.` });
+        return null;
+      }
+      return value;
+    }));
+  });
+
+  const rows = Array.from(byMonth.entries())
+    .map(([month, values]) => ({ month, values }))
+    .sort((a, b) => a.month.localeCompare(b.month));
+  return { fileName, columns, rows, warnings };
+};
+
+const findMonthColumn = (columns: string[]): string | undefined =>
+  columns.find(column => MONTH_COLUMNS.includes(column.trim().toLowerCase()));
+
+const parseCsv = (fileName: string, text: string): ParsedImport => {
+  const [header, ...body] = parseCsvRows(text);
+  if (!header || header.length < 2) throw new Error('The CSV file needs a header row with a month column and at least one series.');
+
+  const names = header.map(name => name.trim());
+  // Without a recognised month header, the first column is taken to hold the months.
+  const monthColumn = findMonthColumn(names) ?? names[0];
+  // Files exported from this app carry a row of units under the header; skip it.
+  const dataRows = body.filter(cells => cells[names.indexOf(monthColumn)]?.trim().toLowerCase() !== 'unit');
+  const records = dataRows.map(cells => Object.fromEntries(names.map((name, index) => [name, cells[index]?.trim() ?? ''])));
+  return toParsedImport(fileName, records, names.filter(name => name !== monthColumn && name !== ''), monthColumn);
+};
+
+// Accepts either an array of records or an object with a `data` array (the app's JSON export).
+const parseJson = (fileName: string, text: string): ParsedImport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const records = Array.isArray(parsed) ? parsed : (parsed as { data?: unknown })?.data;
+  if (!Array.isArray(records)) throw new Error('The JSON file must contain an array of rows, or an object with a "data" array.');
+
+  const objects = records.filter((record): record is Record<string, unknown> => !!record && typeof record === 'object' && !Array.isArray(record));
+  const allColumns = Array.from(new Set(objects.flatMap(record => Object.keys(record))));
+  const monthColumn = findMonthColumn(allColumns);
+  if (!monthColumn) throw new Error('The JSON rows need a "month" field.');
+
+  const result = toParsedImport(fileName, objects, allColumns.filter(column => column !== monthColumn && column !== 'meta'), monthColumn);
+  if (objects.length < records.length) {
+    result.warnings.unshift({ code: 'invalid-row', message: `${records.length - objects.length} rows were not objects and were skipped.` });
+  }
+  return result;
+};
+
+// Parses a user-supplied CSV or JSON file. Throws when the file cannot be read as a table of
+// monthly values at all; recoverable problems are returned as warnings.
+export const parseImportFile = (fileName: string, text: string): ParsedImport => {
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  const result = isJson ? parseJson(fileName, text) : parseCsv(fileName, text);
+  if (result.columns.length === 0) throw new Error('No series columns were found next to the month column.');
+  if (result.rows.length === 0) throw new Error('No rows with a recognisable month were found.');
+  return result;
+};
+
+// Suggests the indicator a column corresponds to, matching either its key or its display name
+// (ignoring a trailing unit such as "Inflation Rate (%)").
+export const suggestIndicator = (column: string): IndicatorKey | undefined => {
+  const normalized = column.replace(/\s*\([^)]*\)\s*$/, '').trim().toLowerCase();
+  return getIndicatorKeys().find(key =>
+    key.toLowerCase() === normalized || getIndicator(key).name.toLowerCase() === normalized,
+  );
+};
+
+// Builds a user series from one column of a parsed file, keeping only months with a value.
+export const buildUserSeries = (parsed: ParsedImport, columnIndex: number, options: UserSeriesOptions): UserSeries => ({
+  id: createClientId(),
+  name: options.name,
+  unit: options.unit,
+  color: options.color,
+  ...(options.indicator ? { indicator: options.indicator } : {}),
+  fileName: parsed.fileName,
+  points: parsed.rows.flatMap(row => {
+    const value = row.values[columnIndex];
+    return value === null ? [] : [{ month: row.month, value }];
+  }),
+});
+
+// Applies the transformation of the indicator a series is mapped to, so the two stay comparable.
+export const transformUserSeries = (series: UserSeries, transform?: IndicatorTransform): UserSeries => {
+  const key = series.indicator;
+  if (!key || !transform || transform.kind === 'none') return series;
+
+  const rows = series.points.map(point => ({ month: point.month, [key]: point.value }) as unknown as EconomicIndicator);
+  const transformed = applyTransforms(rows, { [key]: transform });
+  return {
+    ...series,
+    unit: describeTransform(key, transform).unit,
+    points: transformed.flatMap(row => {
+      const value = getValue(row, key);
+      return value === null ? [] : [{ month: row.month, value }];
+    }),
+  };
+};
@@ -0,0 +1,59 @@
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import type { Annotation, NewAnnotation } from '../types';
+import { STORED_ID_PATTERN, createStoredId } from './storedIds';
+
+const DEFAULT_ANNOTATION_DIR = '.data/annotations';
+
+export interface AnnotationStore {
+  create(annotation: NewAnnotation): Promise<Annotation>;
+  // Every stored annotation, ordered by event date.
+  list(): Promise<Annotation[]>;
+}
+
+// Stores each annotation as a JSON file in `directory`.
+export const createFileAnnotationStore = (directory: string): AnnotationStore => {
+  const root = path.resolve(process.cwd(), directory);
+
+  const read = async (id: string): Promise<Annotation | undefined> => {
+    try {
+      return JSON.parse(await readFile(path.join(root, `${id}.json`), 'utf-8')) as Annotation;
+    } catch {
+      return undefined;
+    }
+  };
+
+  return {
+    create: async (fields) => {
+      const createdAt = new Date();
+      const annotation: Annotation = { id: createStoredId(createdAt), ...fields, createdAt: createdAt.toISOString() };
+      await mkdir(root, { recursive: true });
+      await writeFile(path.join(root, `${annotation.id}.json`), JSON.stringify(annotation), 'utf-8');
+      return annotation;
+    },
+
+    list: async () => {
+      let files: string[];
+      try {
+        files = await readdir(root);
+      } catch {
+        // No annotations have been stored yet.
+        return [];
+      }
+      const ids = files
+        .filter(file => file.endsWith('.json'))
+        .map(file => file.slice(0, -'.json'.length))
+        .filter(id => STORED_ID_PATTERN.test(id));
+
+      const annotations = await Promise.all(ids.map(read));
+      return annotations
+        .filter((a): a is Annotation => a !== undefined)
+        .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+    },
+  };
+};
+
+// Creates the annotation store rooted at ANNOTATION_DIR.
+export const createAnnotationStore = (): AnnotationStore => {
+  return createFileAnnotationStore(process.env.ANNOTATION_DIR || DEFAULT_ANNOTATION_DIR);
+};
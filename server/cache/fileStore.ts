@@ -0,0 +1,26 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import type { CacheEntry, CacheStore } from './types';
+
+// Persists each entry as a JSON file in `directory`, named by a hash of its key.
+export const createFileStore = <T>(directory: string): CacheStore<T> => {
+  const root = path.resolve(process.cwd(), directory);
+  const fileFor = (key: string) => path.join(root, `${createHash('sha1').update(key).digest('hex')}.json`);
+
+  return {
+    name: 'file',
+    get: async key => {
+      try {
+        return JSON.parse(await readFile(fileFor(key), 'utf-8')) as CacheEntry<T>;
+      } catch {
+        // A missing or corrupt file is treated as a cache miss.
+        return undefined;
+      }
+    },
+    set: async (key, entry) => {
+      await mkdir(root, { recursive: true });
+      await writeFile(fileFor(key), JSON.stringify(entry), 'utf-8');
+    },
+  };
+};
@@ -0,0 +1,99 @@
+import { createFileStore } from './fileStore';
+import { createMemoryStore } from './memoryStore';
+import type { CacheStore } from './types';
+
+export type { CacheEntry, CacheStore } from './types';
+
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS' | 'BYPASS';
+
+export interface CacheOptions {
+  // How long an entry is served without revalidation.
+  ttlSeconds: number;
+  // How long past its TTL an entry may still be served while it is refreshed in the background.
+  staleWhileRevalidateSeconds: number;
+}
+
+export interface CachedResult<T> {
+  value: T;
+  status: CacheStatus;
+}
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+const DEFAULT_STALE_SECONDS = 24 * 60 * 60;
+const DEFAULT_CACHE_DIR = '.cache/economic-data';
+
+const readSeconds = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Reads the cache configuration from CACHE_TTL_SECONDS and CACHE_STALE_SECONDS.
+export const getCacheOptions = (): CacheOptions => ({
+  ttlSeconds: readSeconds(process.env.CACHE_TTL_SECONDS, DEFAULT_TTL_SECONDS),
+  staleWhileRevalidateSeconds: readSeconds(process.env.CACHE_STALE_SECONDS, DEFAULT_STALE_SECONDS),
+});
+
+// Creates the store named by CACHE_STORE ("memory" by default, or "file" under CACHE_DIR).
+export const createCacheStore = <T>(): CacheStore<T> => {
+  const name = (process.env.CACHE_STORE || 'memory').trim().toLowerCase();
+  switch (name) {
+    case 'memory':
+      return createMemoryStore<T>();
+    case 'file':
+      return createFileStore<T>(process.env.CACHE_DIR || DEFAULT_CACHE_DIR);
+    default:
+      throw new Error(`Unknown CACHE_STORE "${name}". Expected one of: memory, file.`);
+  }
+};
+
+// Wraps a store with TTL and stale-while-revalidate semantics. Concurrent refreshes of the
+// same key share a single in-flight request. Values rejected by `shouldStore` are returned
+// without being cached.
+export const createResponseCache = <T>(
+  store: CacheStore<T>,
+  options: CacheOptions,
+  { shouldStore }: { shouldStore?: (value: T) => boolean } = {},
+) => {
+  const inFlight = new Map<string, Promise<T>>();
+
+  const refresh = (key: string, fetcher: () => Promise<T>): Promise<T> => {
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const request = fetcher()
+      .then(async value => {
+        if (!shouldStore || shouldStore(value)) {
+          await store.set(key, { value, storedAt: Date.now() });
+        }
+        return value;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, request);
+    return request;
+  };
+
+  // Returns the entry when it can be served without waiting on `fetcher`: fresh, or stale and being
+  // refreshed in the background.
+  const peek = async (key: string, fetcher: () => Promise<T>): Promise<CachedResult<T> | undefined> => {
+    const entry = await store.get(key);
+    if (!entry) return undefined;
+    const ageSeconds = (Date.now() - entry.storedAt) / 1000;
+    if (ageSeconds < options.ttlSeconds) {
+      return { value: entry.value, status: 'HIT' };
+    }
+    if (ageSeconds < options.ttlSeconds + options.staleWhileRevalidateSeconds) {
+      refresh(key, fetcher).catch(error => console.error(`Background revalidation failed for cache key "${key}":`, error));
+      return { value: entry.value, status: 'STALE' };
+    }
+    return undefined;
+  };
+
+  const getOrFetch = async (key: string, fetcher: () => Promise<T>, { bypass = false } = {}): Promise<CachedResult<T>> => {
+    if (bypass) {
+      return { value: await refresh(key, fetcher), status: 'BYPASS' };
+    }
+    return (await peek(key, fetcher)) ?? { value: await refresh(key, fetcher), status: 'MISS' };
+  };
+
+  return { getOrFetch, peek };
+};
@@ -0,0 +1,13 @@
+import type { CacheEntry, CacheStore } from './types';
+
+// Keeps entries in process memory. Entries survive only as long as the (warm) function instance.
+export const createMemoryStore = <T>(): CacheStore<T> => {
+  const entries = new Map<string, CacheEntry<T>>();
+  return {
+    name: 'memory',
+    get: async key => entries.get(key),
+    set: async (key, entry) => {
+      entries.set(key, entry);
+    },
+  };
+};
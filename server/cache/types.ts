@@ -0,0 +1,12 @@
+// A single cached value and the time (ms since epoch) it was stored.
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+// A cache store persists entries by key. Stores are selected at runtime via CACHE_STORE.
+export interface CacheStore<T> {
+  name: string;
+  get(key: string): Promise<CacheEntry<T> | undefined>;
+  set(key: string, entry: CacheEntry<T>): Promise<void>;
+}
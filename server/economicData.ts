@@ -0,0 +1,271 @@
+import type {
+  EconomicDataResponse,
+  EconomicDataStreamEvent,
+  EconomicIndicator,
+  IndicatorFetchStatus,
+  IndicatorKey,
+  Source,
+  ValidationWarning,
+} from '../types';
+import type { MonthRange } from '../lib/months';
+import { buildNativeSeries, fillQuarterlyPeriods } from '../lib/frequency';
+import { getIndicator, getValue } from '../lib/indicators';
+import { mergeByMonth } from '../lib/merge';
+import { attributeSources, mergeSources } from '../lib/sources';
+import { combineRuns } from '../lib/ensemble';
+import { checkPlausibility } from '../lib/plausibility';
+import { getDataProvider } from './providers';
+import type { EconomicDataProvider, ProviderEvent } from './providers/types';
+import { mapWithConcurrency, withRetry } from './fanOut';
+import { validateEconomicData } from './validation';
+import { CachedResult, createCacheStore, createResponseCache, getCacheOptions } from './cache';
+import { createVintageStore } from './vintageStore';
+
+const vintageStore = createVintageStore();
+
+// Receives progress while a response is produced; used by the streaming mode of /api/economic-data.
+export type EconomicDataListener = (event: EconomicDataStreamEvent) => void;
+
+interface FanOutOptions {
+  // "indicator" makes one provider call per indicator, "group" one per registry group.
+  batch: 'indicator' | 'group';
+  concurrency: number;
+  retries: number;
+  timeoutMs: number;
+}
+
+const readCount = (value: string | undefined, fallback: number, minimum: number): number => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isInteger(parsed) && parsed >= minimum ? parsed : fallback;
+};
+
+// Reads FETCH_BATCH, FETCH_CONCURRENCY, FETCH_RETRIES and FETCH_TIMEOUT_SECONDS.
+const getFanOutOptions = (): FanOutOptions => ({
+  batch: process.env.FETCH_BATCH?.trim().toLowerCase() === 'group' ? 'group' : 'indicator',
+  concurrency: readCount(process.env.FETCH_CONCURRENCY, 3, 1),
+  retries: readCount(process.env.FETCH_RETRIES, 2, 0),
+  timeoutMs: readCount(process.env.FETCH_TIMEOUT_SECONDS, 90, 1) * 1000,
+});
+
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Splits the requested indicators into the batches sent to the provider, keeping request order.
+const toBatches = (indicatorKeys: IndicatorKey[], batch: FanOutOptions['batch']): IndicatorKey[][] => {
+  if (batch === 'indicator') return indicatorKeys.map(key => [key]);
+  const byGroup = new Map<string, IndicatorKey[]>();
+  for (const key of indicatorKeys) {
+    const group = getIndicator(key).group;
+    byGroup.set(group, [...(byGroup.get(group) ?? []), key]);
+  }
+  return Array.from(byGroup.values());
+};
+
+interface BatchResult {
+  data: EconomicIndicator[];
+  sources: Source[];
+  warnings: ValidationWarning[];
+  status: IndicatorFetchStatus[];
+}
+
+// Fetches and validates one batch. Failures are reported in the status rather than thrown, so
+// one bad answer doesn't cost the other indicators.
+async function fetchBatch(
+  provider: EconomicDataProvider,
+  indicatorKeys: IndicatorKey[],
+  { startMonth, endMonth }: MonthRange,
+  options: FanOutOptions,
+  onEvent?: EconomicDataListener,
+): Promise<BatchResult> {
+  const label = indicatorKeys.map(key => getIndicator(key).name).join(', ');
+  const onProviderEvent = onEvent && ((event: ProviderEvent) => {
+    if (event.type === 'rows') {
+      // Rows are validated on their own here; warnings are only reported for the full result.
+      const { data } = validateEconomicData(event.rows, event.indicators, { startMonth, endMonth });
+      if (data.length > 0) onEvent({ type: 'partial', indicators: event.indicators, data });
+    } else if (event.type === 'progress') {
+      onEvent({ ...event, message: `${label}: ${event.message}` });
+    } else {
+      onEvent(event);
+    }
+  });
+
+  try {
+    const { value: result, attempts } = await withRetry(
+      signal => provider.fetchEconomicData({ indicators: indicatorKeys, startMonth, endMonth, signal }, onProviderEvent),
+      {
+        retries: options.retries,
+        baseDelayMs: RETRY_BASE_DELAY_MS,
+        timeoutMs: options.timeoutMs,
+        onRetry: (attempt, error) => {
+          console.warn(`Retrying ${indicatorKeys.join(',')} (attempt ${attempt}):`, error);
+          onEvent?.({ type: 'progress', stage: 'searching', message: `${label}: retrying (attempt ${attempt})...` });
+        },
+      },
+    );
+    const { data, warnings } = validateEconomicData(result.data, indicatorKeys, { startMonth, endMonth });
+    const status = indicatorKeys.map(indicator => ({
+      indicator,
+      state: data.some(row => getValue(row, indicator) !== null) ? 'ok' as const : 'empty' as const,
+      attempts,
+    }));
+    return { data, sources: result.sources, warnings, status };
+  } catch (error) {
+    console.error(`Failed to fetch ${indicatorKeys.join(',')}:`, error);
+    const message = error instanceof Error ? error.message : 'An unknown error occurred.';
+    const attempts = (error as { attempts?: number })?.attempts ?? 1;
+    return {
+      data: [],
+      sources: [],
+      warnings: [],
+      status: indicatorKeys.map(indicator => ({ indicator, state: 'failed' as const, attempts, error: message })),
+    };
+  }
+}
+
+// Combines the runs of one batch. A batch fails only when every run failed; otherwise the
+// successful runs are combined into consensus values when there were several.
+const combineBatchRuns = (batch: IndicatorKey[], runs: BatchResult[], runCount: number): BatchResult => {
+  const attempts = runs.reduce((sum, run) => sum + (run.status[0]?.attempts ?? 0), 0);
+  const succeeded = runs.filter(run => run.status.some(status => status.state !== 'failed'));
+  if (succeeded.length === 0) {
+    return { ...runs[0], status: runs[0].status.map(status => ({ ...status, attempts })) };
+  }
+  if (runCount === 1) return succeeded[0];
+
+  const data = combineRuns(succeeded.map(run => run.data), batch, runCount);
+  // Each run reports the same problems, so warnings are kept once per message.
+  const warnings = Array.from(new Map(succeeded.flatMap(run => run.warnings).map(warning => [warning.message, warning])).values());
+  const status = batch.map(indicator => ({
+    indicator,
+    state: data.some(row => getValue(row, indicator) !== null) ? 'ok' as const : 'empty' as const,
+    attempts,
+  }));
+  return { data, sources: mergeSources(...succeeded.map(run => run.sources)), warnings, status };
+};
+
+// Whether any requested indicator failed to fetch.
+const hasFailures = (response: EconomicDataResponse): boolean => response.indicatorStatus.some(status => status.state === 'failed');
+
+// The core logic for fetching data, delegated to the configured data provider.
+// The request is split into batches fetched in parallel with retries, and their validated rows
+// are merged by month. With `ensembleRuns` above 1, every batch is extracted that many times
+// independently and each value becomes the median of the runs. Unless `archive` is off, every
+// result in which no indicator failed is stored as a vintage so earlier outlooks can be browsed
+// later. If every batch fails, the first error is thrown.
+async function getEconomicData(
+  indicatorKeys: IndicatorKey[],
+  range: MonthRange,
+  ensembleRuns: number,
+  onEvent?: EconomicDataListener,
+  archive: boolean = true,
+): Promise<EconomicDataResponse> {
+  const provider = getDataProvider();
+  const options = getFanOutOptions();
+  const batches = toBatches(indicatorKeys, options.batch);
+  // Only the first run streams partial rows; later runs would overwrite them with their own answers.
+  const onLaterRunEvent = onEvent && ((event: EconomicDataStreamEvent) => {
+    if (event.type !== 'partial') onEvent(event);
+  });
+
+  const tasks = batches.flatMap((batch, batchIndex) => Array.from({ length: ensembleRuns }, (_, run) => ({ batch, batchIndex, run })));
+  const runsByBatch: BatchResult[][] = batches.map(() => []);
+  const results: BatchResult[] = new Array(batches.length);
+  await mapWithConcurrency(tasks, options.concurrency, async ({ batch, batchIndex, run }) => {
+    const result = await fetchBatch(provider, batch, range, options, run === 0 ? onEvent : onLaterRunEvent);
+    runsByBatch[batchIndex].push(result);
+    if (runsByBatch[batchIndex].length === ensembleRuns) {
+      results[batchIndex] = combineBatchRuns(batch, runsByBatch[batchIndex], ensembleRuns);
+      onEvent?.({ type: 'status', status: results[batchIndex].status });
+    }
+  });
+
+  const indicatorStatus = results.flatMap(result => result.status);
+  const failed = indicatorStatus.filter(status => status.state === 'failed');
+  if (failed.length === indicatorStatus.length) {
+    throw new Error(failed[0]?.error ?? 'No indicators could be fetched.');
+  }
+
+  onEvent?.({ type: 'progress', stage: 'validating', message: 'Merging the series...' });
+  const data = results.reduce<EconomicIndicator[]>((merged, result) => mergeByMonth(merged, result.data), []);
+  const warnings = results.flatMap(result => result.warnings);
+  if (warnings.length > 0) {
+    console.warn(`Validation produced ${warnings.length} warning(s) for provider "${provider.name}".`);
+  }
+  // Quarterly values are spread over the months of their quarter; `series` keeps the native observations.
+  const filled = fillQuarterlyPeriods(data, indicatorKeys);
+  const anomalies = checkPlausibility(filled, indicatorKeys);
+  if (anomalies.length > 0) {
+    console.warn(`Plausibility checks flagged ${anomalies.length} value(s) for provider "${provider.name}".`);
+  }
+  const response: EconomicDataResponse = {
+    data: filled,
+    sources: attributeSources(mergeSources(...results.map(result => result.sources)), data, indicatorKeys),
+    warnings,
+    series: buildNativeSeries(data, indicatorKeys),
+    fetchedAt: new Date().toISOString(),
+    indicatorStatus,
+    ...(ensembleRuns > 1 ? { ensembleRuns } : {}),
+    anomalies,
+  };
+
+  // A vintage with missing indicators would show up as a revision to empty values.
+  if (!archive || hasFailures(response)) return response;
+
+  onEvent?.({ type: 'progress', stage: 'saving', message: 'Saving this vintage...' });
+  try {
+    await vintageStore.save(response, {
+      indicators: indicatorKeys,
+      provider: provider.name,
+      ...range,
+      ...(ensembleRuns > 1 ? { ensembleRuns } : {}),
+    });
+  } catch (error) {
+    // Failing to archive a vintage should never fail the request itself.
+    console.error("Failed to store vintage:", error);
+  }
+
+  return response;
+}
+
+// The cache lives at module scope so it is shared across invocations of a warm function instance.
+// Responses with failed indicators are not cached, so the next request tries them again.
+const responseCache = createResponseCache(createCacheStore<EconomicDataResponse>(), getCacheOptions(), {
+  shouldStore: response => !hasFailures(response),
+});
+
+// Cache entries are keyed by the data provider, the sorted indicator set and the month range, so
+// the order of the query parameter doesn't matter and switching DATA_PROVIDER never serves the
+// other provider's answers from a persisted cache.
+const buildCacheKey = (indicatorKeys: IndicatorKey[], { startMonth, endMonth }: MonthRange, ensembleRuns: number): string => {
+  const key = `${getDataProvider().name}|${[...new Set(indicatorKeys)].sort().join(',')}|${startMonth}|${endMonth}`;
+  return ensembleRuns > 1 ? `${key}|x${ensembleRuns}` : key;
+};
+
+// Returns the validated data for the indicators and range, from the response cache when possible.
+// `onEvent` only hears about progress when this call is the one fetching from the provider. With
+// `archive` off, a fresh fetch is not stored as a vintage, e.g. when retrying a single indicator.
+export const getCachedEconomicData = (
+  indicatorKeys: IndicatorKey[],
+  range: MonthRange,
+  { bypass = false, ensembleRuns = 1, onEvent, archive = true }: { bypass?: boolean; ensembleRuns?: number; onEvent?: EconomicDataListener; archive?: boolean } = {},
+): Promise<CachedResult<EconomicDataResponse>> => {
+  onEvent?.({ type: 'progress', stage: 'cache', message: 'Checking for recently fetched data...' });
+  return responseCache.getOrFetch(
+    buildCacheKey(indicatorKeys, range, ensembleRuns),
+    () => getEconomicData(indicatorKeys, range, ensembleRuns, onEvent, archive),
+    { bypass },
+  );
+};
+
+// Returns the cached data for the indicators and range if it can be served without a provider
+// call, e.g. to answer a conditional request before streaming starts.
+export const peekCachedEconomicData = (
+  indicatorKeys: IndicatorKey[],
+  range: MonthRange,
+  { ensembleRuns = 1 }: { ensembleRuns?: number } = {},
+): Promise<CachedResult<EconomicDataResponse> | undefined> => {
+  return responseCache.peek(
+    buildCacheKey(indicatorKeys, range, ensembleRuns),
+    () => getEconomicData(indicatorKeys, range, ensembleRuns),
+  );
+};
@@ -0,0 +1,60 @@
+// Helpers for splitting a data request into many provider calls.
+
+// Runs `task` for every item with at most `limit` tasks in flight, resolving in input order.
+// Tasks are expected to handle their own failures.
+export const mapWithConcurrency = async <T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+};
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface RetryOptions {
+  // Attempts after the first.
+  retries: number;
+  // Delay before the first retry; it doubles for each further retry, with some jitter.
+  baseDelayMs: number;
+  // Each attempt is aborted after this long.
+  timeoutMs: number;
+  // Called before each retry, with the number of the upcoming attempt and the last error.
+  onRetry?: (attempt: number, error: unknown) => void;
+}
+
+// Calls `task` until it succeeds or runs out of retries, giving each attempt a signal that aborts
+// it when it times out. Resolves with the value and the number of attempts made; rejects with the
+// last error, which carries the attempt count.
+export const withRetry = async <T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  { retries, baseDelayMs, timeoutMs, onRetry }: RetryOptions,
+): Promise<{ value: T; attempts: number }> => {
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`Timed out after ${timeoutMs / 1000} seconds.`));
+      }, timeoutMs);
+    });
+
+    try {
+      return { value: await Promise.race([task(controller.signal), timeout]), attempts: attempt };
+    } catch (error) {
+      if (attempt > retries) {
+        throw Object.assign(error instanceof Error ? error : new Error(String(error)), { attempts: attempt });
+      }
+      onRetry?.(attempt + 1, error);
+      await sleep(baseDelayMs * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+};
@@ -0,0 +1,29 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import type { IndicatorConfig } from '../types';
+import { parseIndicatorConfig, setIndicatorConfig } from '../lib/indicators';
+
+const DEFAULT_CONFIG_PATH = 'config/indicators.json';
+
+// Resolves the registry path from INDICATORS_FILE, relative to the project root.
+const getConfigPath = (): string => {
+  return path.resolve(process.cwd(), process.env.INDICATORS_FILE || DEFAULT_CONFIG_PATH);
+};
+
+// Reads and validates the indicator registry, then makes it the active registry for this
+// instance. The file is read on every call, so edits apply without a redeploy.
+export const loadIndicatorRegistry = async (): Promise<IndicatorConfig> => {
+  const configPath = getConfigPath();
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(configPath, 'utf-8'));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to read indicator config at ${configPath}. Details: ${errorMessage}`);
+  }
+
+  const config = parseIndicatorConfig(raw);
+  setIndicatorConfig(config);
+  return config;
+};
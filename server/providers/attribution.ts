@@ -0,0 +1,59 @@
+import type { IndicatorKey, Source, SourceAttribution } from '../../types';
+
+const MONTH_PATTERN = /"month"\s*:\s*"(\d{4}-\d{2})"/g;
+
+// A grounding support ties a span of the model's answer to the search results behind it.
+export interface GroundingSupport {
+  startIndex?: number;
+  endIndex?: number;
+  text?: string;
+  uris: string[];
+}
+
+// Finds the month and indicators a span of the JSON answer belongs to: the row whose "month"
+// precedes it, and the indicator keys inside the span or, failing that, the last one before it.
+const locateSpan = (text: string, start: number, end: number, indicatorKeys: IndicatorKey[]): SourceAttribution[] => {
+  let month: string | null = null;
+  let rowStart = 0;
+  for (const match of text.matchAll(MONTH_PATTERN)) {
+    if (match.index! > start) break;
+    month = match[1];
+    rowStart = match.index!;
+  }
+  if (!month) return [];
+
+  const span = text.slice(start, end);
+  const inSpan = indicatorKeys.filter(key => span.includes(`"${key}"`));
+  if (inSpan.length > 0) return inSpan.map(indicator => ({ indicator, months: [month!] }));
+
+  const before = text.slice(rowStart, start);
+  const preceding = indicatorKeys
+    .map(key => ({ key, index: before.lastIndexOf(`"${key}"`) }))
+    .filter(({ index }) => index !== -1)
+    .sort((a, b) => b.index - a.index)[0];
+  return preceding ? [{ indicator: preceding.key, months: [month] }] : [];
+};
+
+// Maps grounding supports onto the sources they cite, as attributions to indicators and months.
+export const attributeSupports = (sources: Source[], supports: GroundingSupport[], text: string, indicatorKeys: IndicatorKey[]): Source[] => {
+  const byUri = new Map<string, SourceAttribution[]>();
+  for (const support of supports) {
+    // Offsets may count bytes rather than characters, so the segment text is preferred.
+    let start = support.text ? text.indexOf(support.text) : -1;
+    let end = start === -1 ? -1 : start + support.text!.length;
+    if (start === -1 && support.startIndex !== undefined && support.endIndex !== undefined) {
+      start = support.startIndex;
+      end = support.endIndex;
+    }
+    if (start === -1) continue;
+
+    const attributions = locateSpan(text, start, end, indicatorKeys);
+    for (const uri of support.uris) {
+      byUri.set(uri, [...(byUri.get(uri) ?? []), ...attributions]);
+    }
+  }
+  return sources.map(source => {
+    const attributions = byUri.get(source.uri);
+    return attributions?.length ? { ...source, attributions } : source;
+  });
+};
@@ -0,0 +1,136 @@
+import { GoogleGenAI } from "@google/genai";
+import type { Source } from '../../types';
+import { formatMonthLong } from '../../lib/months';
+import { getIndicator } from '../../lib/indicators';
+import type { EconomicDataProvider, EconomicDataRequest, EconomicDataResult, ProviderEventListener } from './types';
+import { createRowScanner } from './rowScanner';
+import { GroundingSupport, attributeSupports } from './attribution';
+
+// Fetches indicator data from Gemini, grounded with Google Search.
+async function fetchFromGemini(
+  { indicators: indicatorKeys, startMonth, endMonth, signal }: EconomicDataRequest,
+  onEvent?: ProviderEventListener,
+): Promise<EconomicDataResult> {
+  if (!process.env.API_KEY) {
+    // This error is logged on the server, not shown to the user directly.
+    throw new Error("API_KEY environment variable not set on the server.");
+  }
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  // Each indicator is listed with its JSON key and, when the registry provides them, the search
+  // terms and sources that lead to the right figures.
+  const indicatorNamesList = indicatorKeys.map(key => {
+    const indicator = getIndicator(key);
+    const hints = [
+      indicator.searchHints?.length ? `search for ${indicator.searchHints.map(hint => `"${hint}"`).join(', ')}` : null,
+      indicator.preferredSources?.length ? `prefer ${indicator.preferredSources.join(', ')}` : null,
+    ].filter(Boolean);
+    return `- ${indicator.name} (${indicator.unit || 'index'}), JSON key "${key}"${hints.length ? `: ${hints.join('; ')}` : ''}`;
+  }).join('\n');
+  const jsonExampleFields = indicatorKeys.map(key => `"${key}": { "value": 1.23, "status": "actual", "source": "https://..." }`).join(',\n  ');
+
+
+  onEvent?.({ type: 'progress', stage: 'searching', message: 'Searching the web for the latest figures...' });
+  // The response is streamed so sources and completed rows can be reported as they arrive.
+  const stream = await ai.models.generateContentStream({
+    model: "gemini-2.5-flash",
+    contents: `
+**Primary Directive: Use Google Search to find verifiable economic outlook and forecast data for the Philippines.**
+
+Your role is a financial data analyst. You **MUST** use the Google Search tool to gather monthly data and forecasts for these specific indicators in the Philippines, starting from **${formatMonthLong(startMonth)}** and extending up to **and including ${formatMonthLong(endMonth)}**. Use reported figures for months that have already been released and forecasts for the rest.
+${indicatorNamesList}
+
+**Output Requirements:**
+1.  The output **MUST** be a single, valid JSON object. Do not add any text, markdown, or explanations before or after the JSON.
+2.  The JSON object must have a single top-level key: "data".
+3.  The "data" key must contain an array of objects, where each object represents one month of data from ${startMonth} to ${endMonth}. Each object must include the "month" key in YYYY-MM format.
+4.  Each indicator value must be an object with:
+    - "value": the number.
+    - "status": "actual" for officially released figures, "estimate" for preliminary or flash estimates, or "forecast" for projections.
+    - "source": the URL of the search result that supports the value.
+5.  For any requested indicator where data cannot be found for a specific month, the value should be \`null\`. Do not omit the key.
+6.  **Crucially, all data must be sourced from your Google Search results.** The API response must include the grounding metadata from your searches. Do not use internal or pre-existing knowledge.
+
+Example for one object in the "data" array for the requested indicators:
+{
+  "month": "YYYY-MM",
+  ${jsonExampleFields}
+}
+`,
+    config: {
+      tools: [{ googleSearch: {} }],
+      abortSignal: signal,
+    },
+  });
+
+  // Extract web sources from grounding metadata, format them, and remove duplicates.
+  // Grounding metadata may arrive with any chunk, so sources are collected across the stream.
+  const uniqueSources = new Map<string, Source>();
+  const supports: GroundingSupport[] = [];
+  const scanner = createRowScanner();
+  let text = '';
+  for await (const chunk of stream) {
+    const groundingMetadata = chunk.candidates?.[0]?.groundingMetadata;
+    const groundingChunks = groundingMetadata?.groundingChunks ?? [];
+    // Supports cite chunks by their index in the same metadata.
+    for (const support of groundingMetadata?.groundingSupports ?? []) {
+      const uris = (support.groundingChunkIndices ?? []).map(index => groundingChunks[index]?.web?.uri).filter((uri): uri is string => Boolean(uri));
+      if (uris.length > 0) {
+        supports.push({ startIndex: support.segment?.startIndex, endIndex: support.segment?.endIndex, text: support.segment?.text, uris });
+      }
+    }
+    const newSources: Source[] = [];
+    for (const groundingChunk of groundingChunks) {
+        if (groundingChunk.web?.uri && groundingChunk.web?.title && !uniqueSources.has(groundingChunk.web.uri)) {
+            // Use URI as the key to ensure uniqueness
+            const source = { title: groundingChunk.web.title, uri: groundingChunk.web.uri };
+            uniqueSources.set(source.uri, source);
+            newSources.push(source);
+        }
+    }
+    if (newSources.length > 0) onEvent?.({ type: 'sources', sources: newSources });
+
+    const chunkText = chunk.text ?? '';
+    if (chunkText && text === '') {
+      onEvent?.({ type: 'progress', stage: 'extracting', message: 'Extracting monthly figures...' });
+    }
+    text += chunkText;
+    const rows = scanner.push(chunkText);
+    if (rows.length > 0) onEvent?.({ type: 'rows', indicators: indicatorKeys, rows });
+  }
+  // Each source is attributed to the indicators and months its supports cover.
+  const webSources = attributeSupports([...uniqueSources.values()], supports, text, indicatorKeys);
+
+  // Robustly parse the JSON from the response text.
+  let jsonText = text.trim();
+  const jsonStart = jsonText.indexOf('{');
+  const jsonEnd = jsonText.lastIndexOf('}');
+
+  if (jsonStart !== -1 && jsonEnd > jsonStart) {
+    jsonText = jsonText.substring(jsonStart, jsonEnd + 1).trim();
+  }
+
+  try {
+    const parsedResult = JSON.parse(jsonText);
+
+    if (parsedResult && Array.isArray(parsedResult.data)) {
+      // Construct the final object with data from the model and sources from grounding.
+      return {
+        data: parsedResult.data,
+        sources: webSources,
+      };
+    } else {
+      console.error("Parsed JSON does not match expected structure. Parsed object:", parsedResult);
+      throw new Error("Parsed data from Gemini is not in the expected format.");
+    }
+  } catch (error) {
+    console.error("Failed to parse JSON from Gemini response. Raw text:", text);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown parsing error';
+    throw new Error(`Failed to parse JSON from the AI's response. Details: ${errorMessage}`);
+  }
+}
+
+export const geminiProvider: EconomicDataProvider = {
+  name: 'gemini',
+  fetchEconomicData: fetchFromGemini,
+};
@@ -0,0 +1,20 @@
+import { geminiProvider } from './geminiProvider';
+import { localProvider } from './localProvider';
+import type { EconomicDataProvider } from './types';
+
+export type { EconomicDataProvider, EconomicDataRequest, EconomicDataResult } from './types';
+
+const PROVIDERS: Record<string, EconomicDataProvider> = {
+  [geminiProvider.name]: geminiProvider,
+  [localProvider.name]: localProvider,
+};
+
+// Returns the provider named by DATA_PROVIDER, defaulting to Gemini.
+export const getDataProvider = (): EconomicDataProvider => {
+  const name = (process.env.DATA_PROVIDER || geminiProvider.name).trim().toLowerCase();
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown DATA_PROVIDER "${name}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}.`);
+  }
+  return provider;
+};
@@ -0,0 +1,78 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import type { DataPointStatus, EconomicIndicator, Source } from '../../types';
+import { getIndicator } from '../../lib/indicators';
+import { getSourceDomain } from '../../lib/sources';
+import type { EconomicDataProvider, EconomicDataRequest, EconomicDataResult, ProviderEventListener } from './types';
+
+const DEFAULT_FIXTURE_PATH = 'fixtures/economic-data.json';
+
+interface FixtureFile {
+  data: EconomicIndicator[];
+  sources: Source[];
+  // The last month with released figures. The following month is an estimate; later months are forecasts.
+  actualsThrough?: string;
+}
+
+const getStatus = (month: string, actualsThrough: string | undefined, isFirstAfter: boolean): DataPointStatus => {
+  if (!actualsThrough || month <= actualsThrough) return 'actual';
+  return isFirstAfter ? 'estimate' : 'forecast';
+};
+
+// Resolves the fixture path from LOCAL_DATA_FILE, relative to the project root.
+const getFixturePath = (): string => {
+  return path.resolve(process.cwd(), process.env.LOCAL_DATA_FILE || DEFAULT_FIXTURE_PATH);
+};
+
+// Serves indicator data from a JSON fixture on disk, so the dashboard can run offline.
+async function fetchFromFixture(
+  { indicators, startMonth, endMonth }: EconomicDataRequest,
+  onEvent?: ProviderEventListener,
+): Promise<EconomicDataResult> {
+  const fixturePath = getFixturePath();
+  onEvent?.({ type: 'progress', stage: 'searching', message: 'Reading the local data fixture...' });
+
+  let fixture: FixtureFile;
+  try {
+    fixture = JSON.parse(await readFile(fixturePath, 'utf-8'));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to read local data fixture at ${fixturePath}. Details: ${errorMessage}`);
+  }
+
+  if (!fixture || !Array.isArray(fixture.data)) {
+    throw new Error(`Local data fixture at ${fixturePath} is not in the expected format.`);
+  }
+
+  // Only return the requested indicators and months, mirroring the shape the Gemini provider produces.
+  const { actualsThrough } = fixture;
+  const firstAfterActuals = fixture.data.map(row => row.month).sort().find(month => actualsThrough && month > actualsThrough);
+  const data = fixture.data.filter(row => row.month >= startMonth && row.month <= endMonth).map(row => {
+    const status = getStatus(row.month, actualsThrough, row.month === firstAfterActuals);
+    const filtered: Record<string, unknown> = { month: row.month };
+    for (const key of indicators) {
+      const value = row[key] ?? null;
+      filtered[key] = value === null ? null : { value, status };
+    }
+    return filtered;
+  });
+
+  // The fixture has no per-value sources, so each source backs the requested indicators that
+  // name its domain among their preferred sources.
+  const months = data.map(row => row.month as string);
+  const sources = (Array.isArray(fixture.sources) ? fixture.sources : []).map(source => {
+    const domain = getSourceDomain(source);
+    const attributions = indicators
+      .filter(key => domain && getIndicator(key).preferredSources?.some(preferred => domain === preferred || domain.endsWith(`.${preferred}`)))
+      .map(indicator => ({ indicator, months }));
+    return attributions.length > 0 ? { ...source, attributions } : source;
+  });
+  onEvent?.({ type: 'sources', sources });
+  onEvent?.({ type: 'rows', indicators, rows: data });
+  return { data, sources };
+}
+
+export const localProvider: EconomicDataProvider = {
+  name: 'local',
+  fetchEconomicData: fetchFromFixture,
+};
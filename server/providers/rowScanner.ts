@@ -0,0 +1,50 @@
+// Picks complete rows out of a JSON document of the form { "data": [ {...}, {...} ] } while it
+// is still being streamed, so rows can be shown before the model has finished writing.
+export const createRowScanner = () => {
+  let text = '';
+  // Where scanning resumes, or -1 until the opening bracket of the "data" array has been seen.
+  let position = -1;
+  let depth = 0;
+  let inString = false;
+  let isEscaped = false;
+  let rowStart = -1;
+
+  // Appends a chunk of text and returns the rows completed by it. Rows that aren't valid JSON are
+  // skipped; the full document is still parsed and validated once the stream ends.
+  const push = (chunk: string): unknown[] => {
+    text += chunk;
+    if (position === -1) {
+      const match = /"data"\s*:\s*\[/.exec(text);
+      if (!match) return [];
+      position = match.index + match[0].length;
+    }
+
+    const rows: unknown[] = [];
+    for (; position < text.length; position++) {
+      const char = text[position];
+      if (inString) {
+        if (isEscaped) isEscaped = false;
+        else if (char === '\\') isEscaped = true;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        if (depth === 0) rowStart = position;
+        depth++;
+      } else if (char === '}' && depth > 0) {
+        depth--;
+        if (depth === 0 && rowStart !== -1) {
+          try {
+            rows.push(JSON.parse(text.slice(rowStart, position + 1)));
+          } catch {
+            // Left to the final parse.
+          }
+          rowStart = -1;
+        }
+      }
+    }
+    return rows;
+  };
+
+  return { push };
+};
@@ -0,0 +1,34 @@
+import type { FetchStage, IndicatorKey, Source } from '../../types';
+
+// The parameters a provider receives for a single data request.
+export interface EconomicDataRequest {
+  indicators: IndicatorKey[];
+  // Inclusive YYYY-MM bounds of the months to return.
+  startMonth: string;
+  endMonth: string;
+  // Aborts the request, e.g. when it times out.
+  signal?: AbortSignal;
+}
+
+// The raw result a provider hands back to the API handler. Rows are untrusted until validated.
+export interface EconomicDataResult {
+  data: unknown[];
+  sources: Source[];
+}
+
+// What a provider reports while a request is under way: the stage it has reached, grounding
+// sources as they are found and raw rows as soon as they are complete.
+export type ProviderEvent =
+  | { type: 'progress'; stage: FetchStage; message: string }
+  | { type: 'sources'; sources: Source[] }
+  | { type: 'rows'; indicators: IndicatorKey[]; rows: unknown[] };
+
+export type ProviderEventListener = (event: ProviderEvent) => void;
+
+// A data provider is any backend capable of producing indicator data for the dashboard.
+// Providers are selected at runtime via the DATA_PROVIDER environment variable.
+export interface EconomicDataProvider {
+  name: string;
+  // Reporting events is optional; the returned result is always the complete one.
+  fetchEconomicData(request: EconomicDataRequest, onEvent?: ProviderEventListener): Promise<EconomicDataResult>;
+}
@@ -0,0 +1,10 @@
+import { randomBytes } from 'crypto';
+
+// Ids for stored records such as vintages and annotations: a UTC timestamp and a random suffix,
+// e.g. "20250301T083000Z-3fa9c1". They sort by creation time and are safe to use as file names.
+export const STORED_ID_PATTERN = /^\d{8}T\d{6}Z-[0-9a-f]{6}$/;
+
+export const createStoredId = (date: Date): string => {
+  const stamp = date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  return `${stamp}-${randomBytes(3).toString('hex')}`;
+};
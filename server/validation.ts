@@ -0,0 +1,121 @@
+import type { DataPointMeta, DataPointStatus, EconomicIndicator, IndicatorKey, IndicatorValue, ValidationWarning } from '../types';
+import { DATA_POINT_STATUSES } from '../types';
+import { coerceNumber, normalizeMonth } from '../lib/parse';
+
+export interface ValidationOptions {
+  // Inclusive YYYY-MM bounds; rows outside them are discarded.
+  startMonth?: string;
+  endMonth?: string;
+}
+
+export interface ValidationResult {
+  data: EconomicIndicator[];
+  warnings: ValidationWarning[];
+}
+
+const isHttpUri = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Providers may return either a bare value or an object carrying the value with its status and
+// source, e.g. { "value": 6.1, "status": "forecast", "source": "https://..." }.
+const unwrapValue = (raw: unknown): { value: unknown; status?: unknown; source?: unknown } => {
+  if (raw && typeof raw === 'object' && !Array.isArray(raw) && 'value' in raw) {
+    const { value, status, source, sourceUri } = raw as Record<string, unknown>;
+    return { value, status, source: source ?? sourceUri };
+  }
+  return { value: raw };
+};
+
+// Checks every row returned by a provider against the requested indicators. Months are
+// normalized, values are coerced to numbers or nulled, and duplicate, malformed or out-of-range
+// rows are dropped. Every change is reported as a warning so the UI can surface it.
+export const validateEconomicData = (
+  rows: unknown,
+  indicatorKeys: IndicatorKey[],
+  options: ValidationOptions = {},
+): ValidationResult => {
+  const warnings: ValidationWarning[] = [];
+  const byMonth = new Map<string, EconomicIndicator>();
+
+  if (!Array.isArray(rows)) {
+    warnings.push({ code: 'invalid-row', message: 'Provider returned no data array.' });
+    return { data: [], warnings };
+  }
+
+  const requestedKeys = new Set<string>(indicatorKeys);
+
+  rows.forEach((row, index) => {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      warnings.push({ code: 'invalid-row', message: `Row ${index + 1} is not an object and was discarded.` });
+      return;
+    }
+    const record = row as Record<string, unknown>;
+
+    const month = normalizeMonth(record.month);
+    if (!month) {
+      warnings.push({ code: 'invalid-month', message: `Row ${index + 1} has an unrecognised month ${JSON.stringify(record.month)} and was discarded.` });
+      return;
+    }
+    if ((options.startMonth && month < options.startMonth) || (options.endMonth && month > options.endMonth)) {
+      warnings.push({ code: 'out-of-range-month', month, message: `${month} is outside the requested range and was discarded.` });
+      return;
+    }
+    if (byMonth.has(month)) {
+      warnings.push({ code: 'duplicate-month', month, message: `Duplicate row for ${month} was discarded.` });
+      return;
+    }
+
+    for (const key of Object.keys(record)) {
+      if (key !== 'month' && !requestedKeys.has(key)) {
+        warnings.push({ code: 'unknown-key', month, indicator: key, message: `Unexpected field "${key}" in ${month} was ignored.` });
+      }
+    }
+
+    const sanitized: Record<string, unknown> = { month };
+    const meta: Partial<Record<IndicatorKey, DataPointMeta>> = {};
+    for (const key of indicatorKeys) {
+      let value: IndicatorValue = null;
+      if (!(key in record)) {
+        warnings.push({ code: 'missing-value', month, indicator: key, message: `${key} is missing for ${month}.` });
+        sanitized[key] = value;
+        continue;
+      }
+
+      const raw = unwrapValue(record[key]);
+      if (raw.value !== null && raw.value !== undefined) {
+        const coerced = coerceNumber(raw.value);
+        if (coerced === undefined) {
+          warnings.push({ code: 'invalid-value', month, indicator: key, message: `Non-numeric ${key} value ${JSON.stringify(raw.value)} for ${month} was discarded.` });
+        } else {
+          if (typeof raw.value !== 'number') {
+            warnings.push({ code: 'coerced-value', month, indicator: key, message: `${key} value ${JSON.stringify(raw.value)} for ${month} was converted to ${coerced}.` });
+          }
+          value = coerced;
+        }
+      }
+      sanitized[key] = value;
+
+      if (value === null || raw.status === undefined) continue;
+      const status = typeof raw.status === 'string' ? raw.status.trim().toLowerCase() : raw.status;
+      if (!DATA_POINT_STATUSES.includes(status as DataPointStatus)) {
+        warnings.push({ code: 'invalid-status', month, indicator: key, message: `Unrecognised status ${JSON.stringify(raw.status)} for ${key} in ${month} was ignored.` });
+        continue;
+      }
+      meta[key] = { status: status as DataPointStatus, ...(isHttpUri(raw.source) ? { sourceUri: raw.source } : {}) };
+    }
+    if (Object.keys(meta).length > 0) {
+      sanitized.meta = meta;
+    }
+
+    byMonth.set(month, sanitized as unknown as EconomicIndicator);
+  });
+
+  const data = [...byMonth.values()].sort((a, b) => a.month.localeCompare(b.month));
+  return { data, warnings };
+};
@@ -0,0 +1,74 @@
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import type { EconomicDataResponse, Vintage, VintageParameters, VintageSummary } from '../types';
+import { STORED_ID_PATTERN, createStoredId } from './storedIds';
+
+const DEFAULT_VINTAGE_DIR = '.data/vintages';
+
+export interface VintageStore {
+  save(result: EconomicDataResponse, parameters: VintageParameters): Promise<VintageSummary>;
+  list(limit?: number): Promise<VintageSummary[]>;
+  get(id: string): Promise<Vintage | undefined>;
+}
+
+const toSummary = ({ id, createdAt, parameters, rowCount }: Vintage): VintageSummary => ({ id, createdAt, parameters, rowCount });
+
+// Stores each vintage as a JSON file in `directory`.
+export const createFileVintageStore = (directory: string): VintageStore => {
+  const root = path.resolve(process.cwd(), directory);
+
+  const get = async (id: string): Promise<Vintage | undefined> => {
+    if (!STORED_ID_PATTERN.test(id)) return undefined;
+    try {
+      return JSON.parse(await readFile(path.join(root, `${id}.json`), 'utf-8')) as Vintage;
+    } catch {
+      return undefined;
+    }
+  };
+
+  return {
+    save: async (result, parameters) => {
+      const createdAt = new Date(result.fetchedAt);
+      const vintage: Vintage = {
+        id: createStoredId(createdAt),
+        createdAt: createdAt.toISOString(),
+        parameters,
+        rowCount: result.data.length,
+        data: result.data,
+        sources: result.sources,
+        warnings: result.warnings,
+      };
+      await mkdir(root, { recursive: true });
+      await writeFile(path.join(root, `${vintage.id}.json`), JSON.stringify(vintage), 'utf-8');
+      return toSummary(vintage);
+    },
+
+    list: async (limit = 50) => {
+      let files: string[];
+      try {
+        files = await readdir(root);
+      } catch {
+        // No vintages have been stored yet.
+        return [];
+      }
+      // Ids sort chronologically, so the newest vintages are at the end.
+      const ids = files
+        .filter(file => file.endsWith('.json'))
+        .map(file => file.slice(0, -'.json'.length))
+        .filter(id => STORED_ID_PATTERN.test(id))
+        .sort()
+        .reverse()
+        .slice(0, limit);
+
+      const vintages = await Promise.all(ids.map(get));
+      return vintages.filter((v): v is Vintage => v !== undefined).map(toSummary);
+    },
+
+    get,
+  };
+};
+
+// Creates the vintage store rooted at VINTAGE_DIR.
+export const createVintageStore = (): VintageStore => {
+  return createFileVintageStore(process.env.VINTAGE_DIR || DEFAULT_VINTAGE_DIR);
+};
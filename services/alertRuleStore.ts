@@ -0,0 +1,29 @@
+import { AlertRule } from '../types';
+import { parseCustomAlertRule } from '../lib/alerts';
+
+const STORAGE_KEY = 'peo:alertRules';
+
+// Custom alert rules are kept in localStorage; rules for indicators that are no longer registered
+// are dropped on load.
+export const loadCustomAlertRules = (): AlertRule[] => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        return parsed.flatMap((rule, index) => parseCustomAlertRule(rule, `Rule ${index + 1}`).rule ?? []);
+      }
+    }
+  } catch (e) {
+    // Storage may be unavailable (e.g. private browsing) or hold malformed data.
+  }
+  return [];
+};
+
+export const saveCustomAlertRules = (rules: AlertRule[]): void => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  } catch (e) {
+    // Ignore storage failures; the rules stay active until the page is reloaded.
+  }
+};
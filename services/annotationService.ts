@@ -0,0 +1,24 @@
+import type { Annotation, NewAnnotation } from '../types';
+import { requestJson } from './apiClient';
+
+export const fetchAnnotations = async (): Promise<Annotation[]> => {
+  const result = await requestJson<{ annotations: Annotation[] }>('/api/annotations');
+
+  if (!result || !Array.isArray(result.annotations)) {
+    throw new Error("The annotation list from the API is incorrect.");
+  }
+  return result.annotations;
+};
+
+export const createAnnotation = async (annotation: NewAnnotation): Promise<Annotation> => {
+  const result = await requestJson<{ annotation: Annotation }>('/api/annotations', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(annotation),
+  });
+
+  if (!result || !result.annotation || typeof result.annotation.id !== 'string') {
+    throw new Error("The saved annotation from the API is incorrect.");
+  }
+  return result.annotation;
+};
@@ -0,0 +1,20 @@
+
+// Performs a request against one of our serverless endpoints and returns the parsed JSON body.
+// Non-2xx responses are turned into errors carrying the server's detailed message when available.
+export const requestJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    let errorMessage = `API request failed with status: ${response.status}`;
+    try {
+      const errorBody = await response.json();
+      // Use the detailed error message from the serverless function if available.
+      errorMessage = errorBody.details || errorBody.message || errorMessage;
+    } catch (e) {
+      // The response body was not JSON; use the default error message.
+    }
+    throw new Error(errorMessage);
+  }
+
+  return response.json();
+};
@@ -0,0 +1,153 @@
+import { ExportTable, getLatestValues } from '../lib/export/table';
+import { toCsv } from '../lib/export/csv';
+import { toXlsx } from '../lib/export/xlsx';
+import { createReportPdf } from '../lib/export/pdf';
+import { formatValue } from '../lib/format';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx' | 'png' | 'svg' | 'pdf';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+  { format: 'xlsx', label: 'Excel (.xlsx)' },
+  { format: 'png', label: 'Chart image (PNG)' },
+  { format: 'svg', label: 'Chart image (SVG)' },
+  { format: 'pdf', label: 'PDF report' },
+];
+
+const FILE_NAME = 'philippine-economic-data';
+const REPORT_TITLE = 'Philippine Economic Outlook';
+const CHART_BACKGROUND = '#111827';
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Combines every rendered chart surface in the container (one, or one per panel) into a single
+// standalone SVG, stacked vertically on the dashboard's background colour.
+const captureChartSvg = (container: HTMLElement): { svg: string; width: number; height: number } => {
+  const surfaces = Array.from(container.querySelectorAll<SVGSVGElement>('svg.recharts-surface'));
+  if (surfaces.length === 0) throw new Error('There is no chart to export.');
+
+  const width = Math.max(...surfaces.map(surface => surface.getBoundingClientRect().width));
+  const root = document.createElementNS(SVG_NS, 'svg');
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', CHART_BACKGROUND);
+  root.appendChild(background);
+
+  let height = 0;
+  for (const surface of surfaces) {
+    const { width: surfaceWidth, height: surfaceHeight } = surface.getBoundingClientRect();
+    const group = document.createElementNS(SVG_NS, 'g');
+    group.setAttribute('transform', `translate(0, ${height})`);
+    const clone = surface.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('width', String(surfaceWidth));
+    clone.setAttribute('height', String(surfaceHeight));
+    group.appendChild(clone);
+    root.appendChild(group);
+    height += surfaceHeight;
+  }
+
+  root.setAttribute('xmlns', SVG_NS);
+  root.setAttribute('width', String(width));
+  root.setAttribute('height', String(height));
+  root.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  root.setAttribute('font-family', 'sans-serif');
+  return { svg: new XMLSerializer().serializeToString(root), width, height };
+};
+
+const rasterizeSvg = async (svg: string, width: number, height: number, scale: number): Promise<HTMLCanvasElement> => {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Failed to render the chart image.'));
+      image.src = url;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas rendering is not supported in this browser.');
+    context.fillStyle = CHART_BACKGROUND;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode the chart image.'))), type, quality);
+  });
+
+const toJson = (table: ExportTable): string => JSON.stringify({
+  fetchedAt: table.fetchedAt,
+  indicators: table.columns,
+  data: table.rows.map(row => {
+    const entry: Record<string, string | number | null> = { month: row.month };
+    table.columns.forEach((column, index) => {
+      entry[column.key] = row.values[index];
+    });
+    return entry;
+  }),
+  sources: table.sources,
+}, null, 2);
+
+// Exports the displayed data in the given format. Image and PDF formats capture the chart
+// rendered inside `chartContainer`.
+export const exportData = async (format: ExportFormat, table: ExportTable, chartContainer: HTMLElement | null): Promise<void> => {
+  switch (format) {
+    case 'csv':
+      downloadBlob(new Blob([toCsv(table)], { type: 'text/csv;charset=utf-8;' }), `${FILE_NAME}.csv`);
+      return;
+    case 'json':
+      downloadBlob(new Blob([toJson(table)], { type: 'application/json' }), `${FILE_NAME}.json`);
+      return;
+    case 'xlsx':
+      downloadBlob(
+        new Blob([toXlsx(table)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+        `${FILE_NAME}.xlsx`,
+      );
+      return;
+  }
+
+  if (!chartContainer) throw new Error('There is no chart to export.');
+  const { svg, width, height } = captureChartSvg(chartContainer);
+
+  if (format === 'svg') {
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }), `${FILE_NAME}.svg`);
+    return;
+  }
+  if (format === 'png') {
+    downloadBlob(await canvasToBlob(await rasterizeSvg(svg, width, height, 2), 'image/png'), `${FILE_NAME}.png`);
+    return;
+  }
+
+  const canvas = await rasterizeSvg(svg, width, height, 2);
+  const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+  const range = table.rows.length > 0 ? `${table.rows[0].month} to ${table.rows[table.rows.length - 1].month}` : 'No data';
+  const pdf = createReportPdf({
+    title: REPORT_TITLE,
+    subtitle: table.fetchedAt ? `${range} - fetched ${new Date(table.fetchedAt).toLocaleString()}` : range,
+    image: { jpeg, width: canvas.width, height: canvas.height },
+    summaryHeading: 'Latest values',
+    summaryLines: getLatestValues(table).map(({ column, month, value }) => `${column.name}: ${formatValue(value, column.unit)} (${month})`),
+    sourcesHeading: 'Sources',
+    sourceLines: table.sources.map(source => `${source.title} - ${source.uri}`),
+  });
+  downloadBlob(new Blob([pdf], { type: 'application/pdf' }), `${FILE_NAME}.pdf`);
+};
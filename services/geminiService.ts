@@ -1,14 +1,125 @@
 
-import type { EconomicIndicator, IndicatorKey, Source } from '../types';
+import type { EconomicDataResponse, EconomicDataStreamEvent, IndicatorKey } from '../types';
 
-export const fetchEconomicData = async (indicators: IndicatorKey[]): Promise<{ data: EconomicIndicator[], sources: Source[] }> => {
+interface FetchEconomicDataOptions {
+  // Bypass the server-side cache and fetch fresh data from the provider.
+  refresh?: boolean;
+  // Inclusive YYYY-MM bounds; the server applies its defaults when omitted.
+  startMonth?: string;
+  endMonth?: string;
+  // Independent extractions to combine into consensus values, from 1 (the default) to 5.
+  ensembleRuns?: number;
+  // Whether a fresh fetch is stored as a vintage; on by default.
+  archive?: boolean;
+  // Cancels the request.
+  signal?: AbortSignal;
+  // When given, the request is streamed and every progress event is passed here as it arrives.
+  onEvent?: (event: EconomicDataStreamEvent) => void;
+}
+
+const toEconomicDataResponse = (result: unknown): EconomicDataResponse => {
+  const body = (result && typeof result === 'object' ? result : {}) as Record<string, unknown>;
+  if (Array.isArray(body.data) && Array.isArray(body.sources)) {
+    return {
+      data: body.data,
+      sources: body.sources,
+      warnings: Array.isArray(body.warnings) ? body.warnings : [],
+      series: body.series && typeof body.series === 'object' ? body.series as EconomicDataResponse['series'] : {},
+      fetchedAt: typeof body.fetchedAt === 'string' ? body.fetchedAt : new Date().toISOString(),
+      indicatorStatus: Array.isArray(body.indicatorStatus) ? body.indicatorStatus : [],
+      ...(typeof body.ensembleRuns === 'number' ? { ensembleRuns: body.ensembleRuns } : {}),
+      anomalies: Array.isArray(body.anomalies) ? body.anomalies : [],
+    };
+  }
+  console.error("Data received from API is not in the expected format:", result);
+  throw new Error("The data format from the API is incorrect.");
+};
+
+// The last streamed result for each query and its ETag. Streamed responses carry their ETag in the
+// body, so the browser cache can't revalidate them; the next request for the same query does.
+const streamedResults = new Map<string, { etag: string; response: EconomicDataResponse }>();
+
+// Reads a newline-delimited JSON stream of events, resolving with the final result and its ETag.
+const readEventStream = async (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: EconomicDataStreamEvent) => void,
+): Promise<{ etag: string; response: EconomicDataResponse }> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let result: { etag: string; response: EconomicDataResponse } | null = null;
+
+  const handleLine = (line: string) => {
+    if (line.trim() === '') return;
+    const event = JSON.parse(line) as EconomicDataStreamEvent;
+    if (event.type === 'error') {
+      throw new Error(event.details || event.message);
+    }
+    if (event.type === 'result') {
+      result = { etag: event.etag, response: toEconomicDataResponse(event.response) };
+    }
+    onEvent(event);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    lines.forEach(handleLine);
+    if (done) break;
+  }
+  handleLine(buffered);
+
+  if (!result) {
+    throw new Error("The data stream ended before the result arrived.");
+  }
+  return result;
+};
+
+export const fetchEconomicData = async (
+  indicators: IndicatorKey[],
+  { refresh = false, startMonth, endMonth, ensembleRuns = 1, archive = true, signal, onEvent }: FetchEconomicDataOptions = {},
+): Promise<EconomicDataResponse> => {
   if (indicators.length === 0) {
-    return Promise.resolve({ data: [], sources: [] });
+    return Promise.resolve({ data: [], sources: [], warnings: [], series: {}, fetchedAt: new Date().toISOString(), indicatorStatus: [], anomalies: [] });
   }
 
   try {
     const params = new URLSearchParams({ indicators: indicators.join(',') });
-    const response = await fetch(`/api/economic-data?${params.toString()}`);
+    if (startMonth) {
+      params.set('start', startMonth);
+    }
+    if (endMonth) {
+      params.set('end', endMonth);
+    }
+    if (refresh) {
+      params.set('refresh', '1');
+    }
+    if (ensembleRuns > 1) {
+      params.set('ensemble', String(ensembleRuns));
+    }
+    if (!archive) {
+      params.set('archive', '0');
+    }
+    // Refreshing replaces the stored result for the same query.
+    const key = new URLSearchParams(params);
+    key.delete('refresh');
+    key.delete('archive');
+    const query = key.toString();
+    const previous = onEvent && !refresh ? streamedResults.get(query) : undefined;
+    if (onEvent) {
+      params.set('stream', '1');
+    }
+    const response = await fetch(`/api/economic-data?${params.toString()}`, {
+      signal,
+      ...(previous ? { headers: { 'If-None-Match': previous.etag } } : {}),
+    });
+
+    // Nothing changed since the last streamed result for this query.
+    if (response.status === 304 && previous) {
+      return previous.response;
+    }
 
     if (!response.ok) {
       let errorMessage = `API request failed with status: ${response.status}`;
@@ -22,15 +133,17 @@ export const fetchEconomicData = async (indicators: IndicatorKey[]): Promise<{ d
       throw new Error(errorMessage);
     }
 
-    const result = await response.json();
-
-    if (result && Array.isArray(result.data) && Array.isArray(result.sources)) {
-      return result;
-    } else {
-      console.error("Data received from API is not in the expected format:", result);
-      throw new Error("The data format from the API is incorrect.");
+    if (onEvent && response.body) {
+      const streamed = await readEventStream(response.body, onEvent);
+      streamedResults.set(query, streamed);
+      return streamed.response;
     }
+    return toEconomicDataResponse(await response.json());
   } catch (error) {
+    // Cancellation is not a failure; callers check for it by name.
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw error;
+    }
     console.error("Error fetching economic data:", error);
     if (error instanceof Error) {
         // Re-throw the error with a more user-friendly context.
@@ -0,0 +1,47 @@
+
+import { IndicatorKey } from '../types';
+import { getIndicatorKeys } from '../lib/indicators';
+
+const STORAGE_KEY = 'peo:selectedIndicators';
+const URL_PARAM = 'indicators';
+
+// Shown when neither the URL nor localStorage holds a selection.
+export const DEFAULT_SELECTED_INDICATORS: IndicatorKey[] = ['inflationRate', 'gdpGrowth', 'unemploymentRate', 'overnightRrpRate'];
+
+// Keeps only registered keys, in the registry's order.
+const sanitize = (keys: string[]): IndicatorKey[] => {
+  const requested = new Set(keys);
+  return getIndicatorKeys().filter(key => requested.has(key));
+};
+
+// Reads the selection from the URL first, so shared links win, then from localStorage.
+export const loadIndicatorSelection = (): IndicatorKey[] => {
+  const fromUrl = new URLSearchParams(window.location.search).get(URL_PARAM);
+  if (fromUrl !== null) {
+    return sanitize(fromUrl.split(','));
+  }
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) return sanitize(parsed);
+    }
+  } catch (e) {
+    // Storage may be unavailable (e.g. private browsing) or hold malformed data.
+  }
+  return DEFAULT_SELECTED_INDICATORS;
+};
+
+// Mirrors the selection into the URL (without adding a history entry) and localStorage.
+export const saveIndicatorSelection = (keys: IndicatorKey[]): void => {
+  const url = new URL(window.location.href);
+  url.searchParams.set(URL_PARAM, keys.join(','));
+  window.history.replaceState(null, '', url.toString());
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(keys));
+  } catch (e) {
+    // Ignore storage failures; the URL still carries the selection.
+  }
+};
@@ -0,0 +1,17 @@
+import type { IndicatorConfig } from '../types';
+import { parseIndicatorConfig, setIndicatorConfig } from '../lib/indicators';
+import { requestJson } from './apiClient';
+
+export const fetchIndicatorConfig = async (): Promise<IndicatorConfig> => {
+  return parseIndicatorConfig(await requestJson<unknown>('/api/indicators'));
+};
+
+// Replaces the bundled registry with the one the server is configured with. If the registry
+// can't be fetched, the bundled registry stays in place.
+export const loadIndicatorRegistry = async (): Promise<void> => {
+  try {
+    setIndicatorConfig(await fetchIndicatorConfig());
+  } catch (err) {
+    console.error("Failed to load the indicator registry; using the bundled one:", err);
+  }
+};
@@ -0,0 +1,29 @@
+import { Scenario } from '../types';
+import { parseScenario } from '../lib/scenarios';
+
+const STORAGE_KEY = 'peo:scenarios';
+
+// Scenarios are kept in localStorage; scenarios that no longer validate, e.g. because an indicator
+// they use was removed from the registry, are dropped on load.
+export const loadScenarios = (): Scenario[] => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        return parsed.flatMap((scenario, index) => parseScenario(scenario, `Scenario ${index + 1}`).scenario ?? []);
+      }
+    }
+  } catch (e) {
+    // Storage may be unavailable (e.g. private browsing) or hold malformed data.
+  }
+  return [];
+};
+
+export const saveScenarios = (scenarios: Scenario[]): void => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+  } catch (e) {
+    // Ignore storage failures; the scenarios stay available until the page is reloaded.
+  }
+};
@@ -0,0 +1,38 @@
+import { UserSeries } from '../types';
+import { isIndicatorKey } from '../lib/indicators';
+
+const STORAGE_KEY = 'peo:userSeries';
+
+const isUserSeries = (value: unknown): value is UserSeries => {
+  if (!value || typeof value !== 'object') return false;
+  const series = value as Partial<UserSeries>;
+  return typeof series.id === 'string'
+    && typeof series.name === 'string'
+    && typeof series.unit === 'string'
+    && typeof series.color === 'string'
+    && typeof series.fileName === 'string'
+    && (series.indicator === undefined || isIndicatorKey(series.indicator))
+    && Array.isArray(series.points);
+};
+
+// Imported series are kept in localStorage so they survive a reload; they never leave the browser.
+export const loadUserSeries = (): UserSeries[] => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) return parsed.filter(isUserSeries);
+    }
+  } catch (e) {
+    // Storage may be unavailable (e.g. private browsing) or hold malformed data.
+  }
+  return [];
+};
+
+export const saveUserSeries = (series: UserSeries[]): void => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(series));
+  } catch (e) {
+    // Ignore storage failures; the series stay on the chart until the page is reloaded.
+  }
+};
@@ -0,0 +1,37 @@
+
+import type { IndicatorKey, Vintage, VintageDiff, VintageSummary } from '../types';
+import { requestJson } from './apiClient';
+
+export const fetchVintages = async (limit?: number): Promise<VintageSummary[]> => {
+  const params = new URLSearchParams();
+  if (limit !== undefined) {
+    params.set('limit', String(limit));
+  }
+  const query = params.toString();
+  const result = await requestJson<{ vintages: VintageSummary[] }>(`/api/vintages${query ? `?${query}` : ''}`);
+
+  if (!result || !Array.isArray(result.vintages)) {
+    throw new Error("The vintage list from the API is incorrect.");
+  }
+  return result.vintages;
+};
+
+export const fetchVintage = async (id: string, signal?: AbortSignal): Promise<Vintage> => {
+  const params = new URLSearchParams({ id });
+  const result = await requestJson<Vintage>(`/api/vintages?${params.toString()}`, { signal });
+
+  if (!result || !Array.isArray(result.data) || !Array.isArray(result.sources)) {
+    throw new Error("The vintage data from the API is incorrect.");
+  }
+  return { ...result, warnings: Array.isArray(result.warnings) ? result.warnings : [] };
+};
+
+export const fetchVintageDiff = async (ids: string[], indicator: IndicatorKey): Promise<VintageDiff> => {
+  const params = new URLSearchParams({ ids: ids.join(','), indicator });
+  const result = await requestJson<VintageDiff>(`/api/vintage-diff?${params.toString()}`);
+
+  if (!result || !Array.isArray(result.points) || !Array.isArray(result.vintages)) {
+    throw new Error("The vintage diff from the API is incorrect.");
+  }
+  return result;
+};
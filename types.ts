@@ -1,48 +1,394 @@
+// A missing or unusable value is represented as null.
+export type IndicatorValue = number | null;
+
+// Whether a value is an observed release, a preliminary estimate, or a projection.
+export type DataPointStatus = 'actual' | 'estimate' | 'forecast';
+
+export const DATA_POINT_STATUSES: DataPointStatus[] = ['actual', 'estimate', 'forecast'];
+
+// How far independent extractions of the same value agree.
+export interface EnsembleStats {
+  // Extractions run, and how many of them produced this value.
+  runs: number;
+  count: number;
+  median: number;
+  min: number;
+  max: number;
+  // max - min.
+  spread: number;
+  // Share of all runs, 0 to 1, that landed close to the median.
+  confidence: number;
+}
+
+export interface DataPointMeta {
+  // Absent when the provider didn't report one, e.g. for some ensemble values.
+  status?: DataPointStatus;
+  sourceUri?: string;
+  // Present when the value is the consensus of several extractions.
+  ensemble?: EnsembleStats;
+}
+
+// Indicators are defined at runtime by the indicator registry (config/indicators.json), so keys
+// and groups are plain strings rather than a fixed set.
+export type IndicatorKey = string;
+
+export type IndicatorGroup = string;
+
+// One month of data: a value per requested indicator, keyed by IndicatorKey. Use `getValue` from
+// lib/indicators to read a value with its proper type.
 export interface EconomicIndicator {
   month: string;
-  bankAverageLendingRate: number;
-  gdpGrowth: number;
-  inflationRate: number;
-  pesoDollarRate: number;
-  underemploymentRate: number;
-  unemploymentRate: number;
-  wtiCrudeOil: number;
-  overnightRrpRate: number;
-  overnightDepositFacilityRate: number;
-  overnightLendingFacilityRate: number;
-  // New indicators
-  gdpConstant: number;
-  gniGdpGrowthRate: number;
-  unemploymentRateInterpolatedQuarterly: number;
-}
-
-export type IndicatorKey = keyof Omit<EconomicIndicator, 'month'>;
+  // Per-indicator status and provenance for this month's values, when known.
+  meta?: Partial<Record<IndicatorKey, DataPointMeta>>;
+  [key: IndicatorKey]: IndicatorValue | string | Partial<Record<IndicatorKey, DataPointMeta>> | undefined;
+}
+
+// How often a series is natively published. Event series (e.g. BSP policy rates) change only
+// on specific dates, such as Monetary Board meetings.
+export type IndicatorFrequency = 'monthly' | 'quarterly' | 'event';
+
+export const INDICATOR_FREQUENCIES: IndicatorFrequency[] = ['monthly', 'quarterly', 'event'];
 
 export interface IndicatorMetadata {
   name: string;
+  group: IndicatorGroup;
+  frequency: IndicatorFrequency;
   color: string;
   unit: string;
   threshold?: number;
   thresholdDescription?: string;
 }
 
+// How an alert rule tests a value: above or below a threshold, or outside a band.
+export type AlertCondition = 'above' | 'below' | 'outside';
+
+export const ALERT_CONDITIONS: AlertCondition[] = ['above', 'below', 'outside'];
+
+export interface AlertRuleDefinition {
+  name: string;
+  condition: AlertCondition;
+  // The threshold for "above" and "below" rules.
+  value?: number;
+  // The band for "outside" rules, e.g. the BSP's 2-4% inflation target.
+  lower?: number;
+  upper?: number;
+  // How many consecutive months must breach before the rule fires; defaults to 1.
+  consecutiveMonths?: number;
+}
+
+// An indicator as declared in the registry. Search hints and preferred sources steer the
+// Gemini prompt towards the right figures; alert rules extend the outlook threshold.
+export interface IndicatorDefinition extends IndicatorMetadata {
+  key: IndicatorKey;
+  searchHints?: string[];
+  preferredSources?: string[];
+  alertRules?: AlertRuleDefinition[];
+  plausibility?: PlausibilityLimits;
+}
+
+// Sanity limits for an indicator's values. Values outside them are flagged, not removed.
+export interface PlausibilityLimits {
+  min?: number;
+  max?: number;
+  // Largest believable change from the previous reported value.
+  maxChange?: number;
+}
+
+// A cross-indicator rule: in any month with both values, `lower` must not exceed `upper`.
+export interface ConsistencyRule {
+  name: string;
+  lower: IndicatorKey;
+  upper: IndicatorKey;
+}
+
+// The indicators forming the central bank's interest rate corridor: the policy rate between a
+// floor and a ceiling. The lending rate and inflation are compared against it.
+export interface PolicyCorridorConfig {
+  policyRate: IndicatorKey;
+  floor: IndicatorKey;
+  ceiling: IndicatorKey;
+  lendingRate?: IndicatorKey;
+  inflation?: IndicatorKey;
+}
+
+// The contents of the indicator registry, as served by /api/indicators.
+export interface IndicatorConfig {
+  groups: { key: IndicatorGroup; name: string }[];
+  indicators: IndicatorDefinition[];
+  consistencyRules?: ConsistencyRule[];
+  policyCorridor?: PolicyCorridorConfig;
+}
+
+// How far a source's domain can be trusted, from official statistics down to unknown sites.
+export type SourceTrust = 'official' | 'institutional' | 'news' | 'unknown';
+export const SOURCE_TRUST_LEVELS: SourceTrust[] = ['official', 'institutional', 'news', 'unknown'];
+
+// The indicator and months a source substantiates.
+export interface SourceAttribution {
+  indicator: IndicatorKey;
+  months: string[];
+}
+
 export interface Source {
   title: string;
   uri: string;
+  trust?: SourceTrust;
+  attributions?: SourceAttribution[];
+}
+
+export type ValidationWarningCode =
+  | 'invalid-row'
+  | 'invalid-month'
+  | 'out-of-range-month'
+  | 'duplicate-month'
+  | 'unknown-key'
+  | 'missing-value'
+  | 'coerced-value'
+  | 'invalid-value'
+  | 'invalid-status';
+
+// Describes a row or value that was changed or discarded while validating provider output.
+export interface ValidationWarning {
+  code: ValidationWarningCode;
+  message: string;
+  month?: string;
+  indicator?: string;
+}
+
+// A single observation at a series' native frequency. `period` is "YYYY-MM" for monthly and
+// event series and "YYYY-Qn" for quarterly series; the month bounds give the span it covers.
+export interface SeriesObservation {
+  period: string;
+  startMonth: string;
+  endMonth: string;
+  value: number;
+  status?: DataPointStatus;
+}
+
+// Whether an indicator's own provider call succeeded: `empty` means it succeeded without any values.
+export type IndicatorFetchState = 'ok' | 'empty' | 'failed';
+
+export interface IndicatorFetchStatus {
+  indicator: IndicatorKey;
+  state: IndicatorFetchState;
+  // Provider calls made, including retries.
+  attempts: number;
+  error?: string;
+}
+
+export type AnomalyCode = 'out-of-bounds' | 'jump' | 'inconsistent';
+
+// A value that failed a plausibility check. Inconsistencies are reported for both indicators,
+// each naming the other as `related`.
+export interface Anomaly {
+  code: AnomalyCode;
+  month: string;
+  indicator: IndicatorKey;
+  value: number;
+  message: string;
+  related?: IndicatorKey;
+}
+
+// The payload returned by /api/economic-data.
+export interface EconomicDataResponse {
+  data: EconomicIndicator[];
+  sources: Source[];
+  warnings: ValidationWarning[];
+  // Each requested indicator at its native frequency.
+  series: Partial<Record<IndicatorKey, SeriesObservation[]>>;
+  // ISO timestamp of when the data was fetched from the provider.
+  fetchedAt: string;
+  // One entry per requested indicator; failed indicators are missing from `data`.
+  indicatorStatus: IndicatorFetchStatus[];
+  // Independent extractions combined into each value; 1 unless an ensemble was requested.
+  ensembleRuns?: number;
+  // Values that failed the plausibility checks. They are still included in `data`.
+  anomalies: Anomaly[];
+}
+
+// The stages a streamed /api/economic-data request reports as it progresses.
+export type FetchStage = 'cache' | 'searching' | 'extracting' | 'validating' | 'saving';
+
+// One line of a streamed /api/economic-data response. `partial` rows are validated but provisional;
+// the final `result` replaces them.
+export type EconomicDataStreamEvent =
+  | { type: 'progress'; stage: FetchStage; message: string }
+  | { type: 'sources'; sources: Source[] }
+  | { type: 'partial'; indicators: IndicatorKey[]; data: EconomicIndicator[] }
+  | { type: 'status'; status: IndicatorFetchStatus[] }
+  // `etag` matches the ETag a non-streamed request would get, for later conditional requests.
+  | { type: 'result'; response: EconomicDataResponse; etag: string }
+  | { type: 'error'; message: string; details?: string };
+
+// The request parameters that produced a vintage.
+export interface VintageParameters {
+  indicators: IndicatorKey[];
+  provider: string;
+  startMonth: string;
+  endMonth: string;
+  ensembleRuns?: number;
+}
+
+// A stored snapshot of a single successful data fetch, without its payload.
+export interface VintageSummary {
+  id: string;
+  createdAt: string;
+  parameters: VintageParameters;
+  rowCount: number;
+}
+
+export interface Vintage extends VintageSummary {
+  data: EconomicIndicator[];
+  sources: Source[];
+  warnings: ValidationWarning[];
+}
+
+// One month's values for an indicator across the compared vintages, ordered oldest to newest.
+export interface RevisionPoint {
+  month: string;
+  values: IndicatorValue[];
+  // Change between each consecutive pair of vintages; null when either side is missing.
+  stepDeltas: (number | null)[];
+  // Change from the oldest to the newest vintage with a value for this month.
+  totalDelta: number | null;
+}
+
+export interface VintageDiff {
+  indicator: IndicatorKey;
+  vintages: VintageSummary[];
+  points: RevisionPoint[];
+  // Months with the largest absolute total revision, largest first.
+  largestRevisions: { month: string; delta: number }[];
+}
+
+// A series imported from the user's own CSV or JSON file and overlaid on the chart.
+export interface UserSeries {
+  id: string;
+  name: string;
+  unit: string;
+  color: string;
+  // The fetched indicator this series is comparable with, if it was mapped to one.
+  indicator?: IndicatorKey;
+  // Name of the file the series was imported from.
+  fileName: string;
+  points: { month: string; value: number }[];
+}
+
+export interface AlertRule extends AlertRuleDefinition {
+  id: string;
+  indicator: IndicatorKey;
+  // True for rules the user defined, as opposed to rules from the indicator registry.
+  isCustom?: boolean;
+}
+
+// A run of consecutive months in breach of a rule.
+export interface AlertBreach {
+  startMonth: string;
+  endMonth: string;
+  months: number;
+  // Whether any month of the run is a forecast rather than a released figure.
+  includesForecast: boolean;
+}
+
+export interface AlertResult {
+  rule: AlertRule;
+  breaches: AlertBreach[];
+  // The latest released (non-forecast) value the rule was checked against.
+  latestMonth: string | null;
+  latestValue: IndicatorValue;
+  // The rule is breached as of the latest released value.
+  isActive: boolean;
+  // A breach is projected in months after the latest released value.
+  isForecastBreach: boolean;
+}
+
+// How a statistical projection extends an indicator: damped-trend exponential smoothing, an
+// ARIMA(1,1,0) model with drift, or a seasonal naive baseline repeating last year's values.
+export type ProjectionMethod = 'exponentialSmoothing' | 'arima' | 'seasonalNaive';
+
+export const PROJECTION_METHODS: ProjectionMethod[] = ['exponentialSmoothing', 'arima', 'seasonalNaive'];
+
+// Coverage of a projection's prediction interval, in percent.
+export type ProjectionLevel = 80 | 95;
+
+export const PROJECTION_LEVELS: ProjectionLevel[] = [80, 95];
+
+export interface ProjectionPoint {
+  month: string;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+// A projection of an indicator from its latest released value, fitted to the released history only.
+export interface IndicatorProjection {
+  indicator: IndicatorKey;
+  method: ProjectionMethod;
+  level: ProjectionLevel;
+  // The latest released value, where the projection starts.
+  baseMonth: string;
+  baseValue: number;
+  // Observations the model was fitted to, at the indicator's native frequency.
+  observations: number;
+  // Fitted parameters, e.g. the smoothing weights, and the residual standard deviation.
+  parameters: Record<string, number>;
+  sigma: number;
+  points: ProjectionPoint[];
+}
+
+// An indicator that could not be projected, and why.
+export interface ProjectionSkip {
+  indicator: IndicatorKey;
+  reason: string;
+}
+
+// How a shock changes an indicator: to a fixed level, by a percentage, or by a fixed amount.
+export type ShockKind = 'level' | 'percent' | 'change';
+
+export const SHOCK_KINDS: ShockKind[] = ['level', 'percent', 'change'];
+
+// A what-if change to an indicator's baseline over a span of months.
+export interface ScenarioShock {
+  indicator: IndicatorKey;
+  kind: ShockKind;
+  value: number;
+  startMonth: string;
+  endMonth: string;
+}
+
+// A linear pass-through: every unit of change in `source` moves `target` by `coefficient` units,
+// `lag` months later.
+export interface PassThroughRule {
+  source: IndicatorKey;
+  target: IndicatorKey;
+  coefficient: number;
+  lag: number;
+}
+
+// A named set of shocks and pass-through rules, saved in the browser.
+export interface Scenario {
+  id: string;
+  name: string;
+  shocks: ScenarioShock[];
+  rules: PassThroughRule[];
+  updatedAt: string;
+}
+
+// The kinds of context an annotation marks on the timeline.
+export type AnnotationCategory = 'policy' | 'weather' | 'commodity' | 'release' | 'other';
+
+export const ANNOTATION_CATEGORIES: AnnotationCategory[] = ['policy', 'weather', 'commodity', 'release', 'other'];
+
+// A dated event marked on the chart, e.g. a Monetary Board decision or a typhoon landfall.
+export interface Annotation {
+  id: string;
+  // YYYY-MM-DD; the marker is drawn at the event's month.
+  date: string;
+  title: string;
+  category: AnnotationCategory;
+  url?: string;
+  createdAt: string;
 }
 
-export const INDICATORS_MAP: Record<IndicatorKey, IndicatorMetadata> = {
-  bankAverageLendingRate: { name: 'Bank Average Lending Rate', color: '#eab308', unit: '%' },
-  gdpGrowth: { name: 'GDP Constant Growth Rate', color: '#22c55e', unit: '%', threshold: 6, thresholdDescription: 'An outlook threshold indicating robust and sustainable economic expansion, aligned with national goals.' },
-  inflationRate: { name: 'Inflation Rate', color: '#ef4444', unit: '%', threshold: 3, thresholdDescription: 'The midpoint of the Bangko Sentral ng Pilipinas (BSP) outlook range (2-4%), aimed at maintaining price stability.' },
-  pesoDollarRate: { name: 'Peso-Dollar (End of Period)', color: '#f97316', unit: '₱' },
-  underemploymentRate: { name: 'Underemployment Rate', color: '#0ea5e9', unit: '%', threshold: 15, thresholdDescription: 'An outlook threshold reflecting a significant improvement in job quality and a reduction in workers seeking more hours.' },
-  unemploymentRate: { name: 'Unemployment Rate (Monthly)', color: '#3b82f6', unit: '%', threshold: 5, thresholdDescription: 'An outlook threshold for achieving near full employment while accounting for natural job transitions.' },
-  wtiCrudeOil: { name: 'WTI Crude Oil', color: '#a855f7', unit: '$' },
-  overnightRrpRate: { name: 'Overnight RRP Rate', color: '#d946ef', unit: '%' },
-  overnightDepositFacilityRate: { name: 'Overnight Deposit Facility Rate', color: '#ec4899', unit: '%' },
-  overnightLendingFacilityRate: { name: 'Overnight Lending Facility Rate', color: '#64748b', unit: '%' },
-  gdpConstant: { name: 'GDP (Constant Prices)', color: '#10b981', unit: '₱' },
-  gniGdpGrowthRate: { name: 'GNI Growth Rate', color: '#14b8a6', unit: '%' },
-  unemploymentRateInterpolatedQuarterly: { name: 'Unemployment Rate (Interpolated Quarterly)', color: '#60a5fa', unit: '%' },
-};
+// The fields given when creating an annotation; the server assigns the rest.
+export type NewAnnotation = Omit<Annotation, 'id' | 'createdAt'>;